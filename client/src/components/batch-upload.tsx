@@ -0,0 +1,153 @@
+import { useState, useCallback } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Files, FolderOpen, X, Download, CheckCircle, AlertCircle } from "lucide-react";
+import { useDropzone } from "react-dropzone";
+import { useQuery } from "@tanstack/react-query";
+import { convertBatch } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { COHEN_PDF_CONFIG } from "@/components/config-simple";
+import type { BatchStatus } from "@shared/schema";
+
+const BATCH_POLL_INTERVAL = 2000;
+
+export default function BatchUpload() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [batchId, setBatchId] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const { data: batch } = useQuery<BatchStatus>({
+    queryKey: ["/api/batch", batchId],
+    enabled: !!batchId,
+    refetchInterval: (query) => (query.state.data?.status === "completed" ? false : BATCH_POLL_INTERVAL),
+  });
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    setFiles(current => [...current, ...acceptedFiles]);
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'text/html': ['.html', '.htm'],
+      'application/zip': ['.zip'],
+    },
+    multiple: true,
+  });
+
+  const handleSubmit = async () => {
+    if (files.length === 0) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await convertBatch(files, COHEN_PDF_CONFIG);
+      setBatchId(result.batchId);
+      setFiles([]);
+      toast({
+        title: "Lote iniciado",
+        description: `Se están generando ${result.totalJobs} PDFs.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error en el lote",
+        description: error instanceof Error ? error.message : "No se pudo iniciar la conversión del lote.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const completed = batch?.counts.completed || 0;
+  const unsuccessful = batch
+    ? (batch.counts.failed || 0) + (batch.counts.cancelled || 0) + (batch.counts.expired || 0)
+    : 0;
+
+  return (
+    <Card className="bg-cohen-card-bg border-cohen-border shadow-sm">
+      <div className="bg-white px-6 py-4 border-b border-cohen-border">
+        <h2 className="text-cohen-text text-lg font-semibold flex items-center">
+          <Files className="mr-3 h-5 w-5 text-cohen-burgundy" />
+          Conversión por Lote
+        </h2>
+        <p className="text-cohen-secondary-text text-sm mt-1">
+          Carga varios reportes HTML o un archivo ZIP con todos los reportes
+        </p>
+      </div>
+
+      <CardContent className="p-6 space-y-4">
+        <div
+          {...getRootProps()}
+          className={`border-2 border-dashed border-cohen-border rounded-lg p-6 text-center hover:border-cohen-burgundy hover:bg-cohen-gray/50 transition-all duration-300 cursor-pointer ${
+            isDragActive ? 'border-cohen-burgundy bg-cohen-gray/50' : ''
+          }`}
+        >
+          <input {...getInputProps()} />
+          <FolderOpen className="mx-auto h-8 w-8 text-cohen-burgundy mb-2" />
+          <p className="text-sm text-cohen-text">
+            {isDragActive ? "Suelta los archivos aquí" : "Arrastra archivos .html o .zip, o haz clic para seleccionar"}
+          </p>
+        </div>
+
+        {files.length > 0 && (
+          <div className="space-y-2">
+            {files.map((file, index) => (
+              <div key={`${file.name}-${index}`} className="flex items-center justify-between text-sm">
+                <span className="truncate text-cohen-text">{file.name}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setFiles(current => current.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          onClick={handleSubmit}
+          disabled={files.length === 0 || isSubmitting}
+          className="w-full btn-cohen-primary"
+        >
+          {isSubmitting ? "Iniciando lote..." : `Convertir ${files.length} archivo${files.length === 1 ? '' : 's'}`}
+        </Button>
+
+        {batch && (
+          <div className="space-y-3 pt-2 border-t border-cohen-border">
+            <div className="flex justify-between text-sm">
+              <span className="text-cohen-text font-medium">Lote #{batch.id}</span>
+              <span className="text-cohen-secondary-text">{batch.progress}%</span>
+            </div>
+            <Progress value={batch.progress} className="w-full" />
+            <div className="flex items-center gap-4 text-xs text-cohen-secondary-text">
+              <span className="flex items-center">
+                <CheckCircle className="h-3 w-3 mr-1 text-green-600" />
+                {completed} de {batch.jobs.length} completados
+              </span>
+              {unsuccessful > 0 && (
+                <span className="flex items-center">
+                  <AlertCircle className="h-3 w-3 mr-1 text-red-600" />
+                  {unsuccessful} con errores
+                </span>
+              )}
+            </div>
+            {batch.status === "completed" && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => window.open(`/api/batch/${batch.id}/download`, '_blank')}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Descargar ZIP
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,79 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Download } from "lucide-react";
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { convertToPdf } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import type { PageSize, PdfConfig, PdfEncryptionConfig, SigningStatus, TableThemePreset, WatermarkConfig } from "@shared/schema";
+
+// Settings tuned for Cohen reports, shared by single and batch conversions
+export const COHEN_PDF_CONFIG: PdfConfig = {
+  pageSize: "A4",
+  orientation: "portrait",
+  landscapeWideTables: true,
+  splitWideTables: false,
+  marginTop: 3,
+  marginSide: 3,
+  repeatHeaders: true,
+  keepGroupsTogether: true,
+  alternateRowColors: true,
+  tableTheme: { preset: "cohen-clasico" },
+  minFontSize: 7,
+  contentScale: 85,
+  headerTemplate: "",
+  footerTemplate: "Cuenta {account} · Resumen de {period} | {date} | Página {page} de {pages}",
+  headerFooterOnFirstPage: true,
+  tableOfContents: false,
+  outputProfile: "standard",
+};
+
+const PAGE_SIZE_LABELS: Record<PageSize, string> = {
+  A4: "A4 (210×297 mm)",
+  Letter: "Carta (216×279 mm)",
+  Legal: "Legal (216×356 mm)",
+  Oficio: "Oficio (216×340 mm)",
+  A3: "A3 (297×420 mm)",
+  A5: "A5 (148×210 mm)",
+  Tabloid: "Tabloide (279×432 mm)",
+  Custom: "Personalizado",
+};
+
+const TABLE_THEME_LABELS: Record<TableThemePreset, string> = {
+  "cohen-clasico": "Cohen clásico",
+  minimal: "Minimal",
+  "impresion-bn": "Impresión B/N",
+};
+
+const WATERMARK_PRESETS: Record<string, WatermarkConfig | undefined> = {
+  none: undefined,
+  draft: {
+    type: "text",
+    text: "BORRADOR",
+    color: "#c0392b",
+    opacity: 0.15,
+    angle: 45,
+    size: 60,
+    position: "center",
+    pages: "all",
+  },
+  confidential: {
+    type: "text",
+    text: "CONFIDENCIAL",
+    color: "#7a1f2b",
+    opacity: 0.12,
+    angle: 45,
+    size: 70,
+    position: "center",
+    pages: "all",
+  },
+};
 
 interface ConfigSimpleProps {
   disabled: boolean;
@@ -17,27 +87,76 @@ export default function ConfigSimple({
   onConversionStarted 
 }: ConfigSimpleProps) {
   const [isConverting, setIsConverting] = useState(false);
+  const [pageSize, setPageSize] = useState<PageSize>("A4");
+  const [customWidth, setCustomWidth] = useState(420);
+  const [customHeight, setCustomHeight] = useState(297);
+  const [tableOfContents, setTableOfContents] = useState(false);
+  const [splitWideTables, setSplitWideTables] = useState(false);
+  const [tableTheme, setTableTheme] = useState<TableThemePreset>("cohen-clasico");
+  const [alternateRowColors, setAlternateRowColors] = useState(true);
+  const [watermark, setWatermark] = useState("none");
+  const [archival, setArchival] = useState(false);
+  const [protect, setProtect] = useState(false);
+  const [userPassword, setUserPassword] = useState("");
+  const [ownerPassword, setOwnerPassword] = useState("");
+  const [permissions, setPermissions] = useState<PdfEncryptionConfig["permissions"]>({
+    print: true,
+    copy: false,
+    modify: false,
+  });
+  const [sign, setSign] = useState(false);
+  const [visibleSignature, setVisibleSignature] = useState(true);
+  const { data: signing } = useQuery<SigningStatus>({ queryKey: ["/api/signing"] });
   const { toast } = useToast();
 
-  async function handleConvert() {
+  async function handleConvert(force = false) {
     if (!file) return;
 
     setIsConverting(true);
     try {
-      const config = {
-        pageSize: "A4" as const,
-        orientation: "portrait" as const,
-        marginTop: 3,
-        marginSide: 3,
-        repeatHeaders: true,
-        keepGroupsTogether: true,
-        alternateRowColors: true,
-        autoFitText: true,
-        contentScale: 85,
-      };
-
-      const result = await convertToPdf(file, config);
+      const result = await convertToPdf(
+        file,
+        {
+          ...COHEN_PDF_CONFIG,
+          pageSize,
+          customPageSize: pageSize === "Custom" ? { width: customWidth, height: customHeight } : undefined,
+          tableOfContents,
+          splitWideTables,
+          tableTheme: { preset: tableTheme },
+          alternateRowColors,
+          watermark: WATERMARK_PRESETS[watermark],
+          outputProfile: archival ? "pdfa-2b" : "standard",
+          encryption: protect
+            ? {
+                userPassword: userPassword || undefined,
+                ownerPassword: ownerPassword || undefined,
+                permissions,
+              }
+            : undefined,
+          signature: sign
+            ? {
+                visible: visibleSignature,
+                page: "last",
+                reason: "Resumen de cuenta emitido por Cohen S.A.",
+                location: "Buenos Aires, Argentina",
+              }
+            : undefined,
+        },
+        { force }
+      );
       onConversionStarted(result.jobId);
+      if (result.cacheHit) {
+        toast({
+          title: "PDF reutilizado",
+          description: "Este reporte ya se había convertido con la misma configuración.",
+          action: (
+            <ToastAction altText="Generar de nuevo" onClick={() => handleConvert(true)}>
+              Generar de nuevo
+            </ToastAction>
+          ),
+        });
+        return;
+      }
       toast({
         title: "Conversión iniciada",
         description: "Tu PDF se está generando con configuración optimizada para reportes Cohen.",
@@ -67,16 +186,223 @@ export default function ConfigSimple({
           <div className="text-sm text-cohen-secondary-text">
             <p className="mb-2 text-cohen-text font-medium">Configuración optimizada para reportes Cohen:</p>
             <ul className="space-y-1 text-xs">
-              <li>• Página A4 vertical con márgenes optimizados</li>
+              <li>• Página vertical con márgenes optimizados</li>
+              <li>• Tablas anchas en páginas horizontales</li>
               <li>• Encabezados de tabla repetidos en cada página</li>
               <li>• Grupos de inversión mantenidos juntos</li>
               <li>• Escala 85% para incluir todas las columnas</li>
+              <li>• Pie de página con cuenta, período y "Página X de Y"</li>
             </ul>
           </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="page-size" className="text-sm text-cohen-text">
+              Tamaño de página
+            </Label>
+            <Select value={pageSize} onValueChange={(value) => setPageSize(value as PageSize)}>
+              <SelectTrigger id="page-size" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PAGE_SIZE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {pageSize === "Custom" && (
+            <div className="flex items-center justify-end gap-2 text-xs text-cohen-secondary-text">
+              <Input
+                aria-label="Ancho en mm"
+                type="number"
+                min={100}
+                max={1200}
+                className="w-20"
+                value={customWidth}
+                onChange={(e) => setCustomWidth(Number(e.target.value))}
+              />
+              ×
+              <Input
+                aria-label="Alto en mm"
+                type="number"
+                min={100}
+                max={1200}
+                className="w-20"
+                value={customHeight}
+                onChange={(e) => setCustomHeight(Number(e.target.value))}
+              />
+              mm
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="table-of-contents" className="text-sm text-cohen-text">
+              Incluir índice al inicio
+            </Label>
+            <Switch
+              id="table-of-contents"
+              checked={tableOfContents}
+              onCheckedChange={setTableOfContents}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="table-theme" className="text-sm text-cohen-text">
+              Estilo de tablas
+            </Label>
+            <Select value={tableTheme} onValueChange={(value) => setTableTheme(value as TableThemePreset)}>
+              <SelectTrigger id="table-theme" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TABLE_THEME_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="alternate-row-colors" className="text-sm text-cohen-text">
+              Filas de color alternado
+            </Label>
+            <Switch
+              id="alternate-row-colors"
+              checked={alternateRowColors}
+              onCheckedChange={setAlternateRowColors}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="split-wide-tables" className="text-sm text-cohen-text">
+              Dividir tablas muy anchas en bloques de columnas
+            </Label>
+            <Switch
+              id="split-wide-tables"
+              checked={splitWideTables}
+              onCheckedChange={setSplitWideTables}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="archival" className="text-sm text-cohen-text">
+              Formato de archivo (PDF/A-2b)
+            </Label>
+            <Switch
+              id="archival"
+              checked={archival}
+              onCheckedChange={setArchival}
+              disabled={protect}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="protect" className="text-sm text-cohen-text">
+              Proteger con contraseña
+            </Label>
+            <Switch
+              id="protect"
+              checked={protect}
+              onCheckedChange={setProtect}
+              disabled={archival || sign}
+            />
+          </div>
+
+          {protect && (
+            <div className="space-y-3 rounded-md border border-cohen-border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="user-password" className="text-xs text-cohen-secondary-text">
+                  Contraseña para abrir (ej. DNI del cliente)
+                </Label>
+                <Input
+                  id="user-password"
+                  type="password"
+                  maxLength={32}
+                  value={userPassword}
+                  onChange={(e) => setUserPassword(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="owner-password" className="text-xs text-cohen-secondary-text">
+                  Contraseña de propietario (opcional)
+                </Label>
+                <Input
+                  id="owner-password"
+                  type="password"
+                  maxLength={32}
+                  value={ownerPassword}
+                  onChange={(e) => setOwnerPassword(e.target.value)}
+                />
+              </div>
+              <div className="flex flex-wrap gap-4">
+                {([
+                  ["print", "Imprimir"],
+                  ["copy", "Copiar"],
+                  ["modify", "Modificar"],
+                ] as const).map(([key, label]) => (
+                  <div key={key} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`permission-${key}`}
+                      checked={permissions[key]}
+                      onCheckedChange={(checked) => setPermissions({ ...permissions, [key]: checked === true })}
+                    />
+                    <Label htmlFor={`permission-${key}`} className="text-xs text-cohen-text">
+                      {label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="watermark" className="text-sm text-cohen-text">
+              Marca de agua
+            </Label>
+            <Select value={watermark} onValueChange={setWatermark}>
+              <SelectTrigger id="watermark" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Ninguna</SelectItem>
+                <SelectItem value="draft">BORRADOR</SelectItem>
+                <SelectItem value="confidential">CONFIDENCIAL</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          
+          <div className="flex items-center justify-between">
+            <Label htmlFor="sign" className="text-sm text-cohen-text">
+              Firmar digitalmente
+              {signing?.configured && (
+                <span className="block text-xs text-cohen-secondary-text">Certificado: {signing.signer}</span>
+              )}
+            </Label>
+            <Switch
+              id="sign"
+              checked={sign}
+              onCheckedChange={setSign}
+              disabled={!signing?.configured || protect}
+            />
+          </div>
+
+          {sign && (
+            <div className="flex items-center justify-between pl-4">
+              <Label htmlFor="visible-signature" className="text-xs text-cohen-secondary-text">
+                Mostrar recuadro de firma en la última página
+              </Label>
+              <Switch
+                id="visible-signature"
+                checked={visibleSignature}
+                onCheckedChange={setVisibleSignature}
+              />
+            </div>
+          )}
           
           <Button 
-            onClick={handleConvert}
-            disabled={disabled || isConverting}
+            onClick={() => handleConvert()}
+            disabled={disabled || isConverting || (protect && !userPassword && !ownerPassword)}
             className="w-full btn-cohen-primary"
             size="lg"
           >
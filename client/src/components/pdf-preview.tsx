@@ -1,47 +1,134 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Eye, Download, FileText, Clock, AlertCircle, CheckCircle } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
-import { getJobStatus } from "@/lib/api";
-import type { PdfConfig, AnalysisResult } from "@shared/schema";
+import { Eye, Download, FileText, Clock, AlertCircle, CheckCircle, XCircle, RotateCcw } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { cancelJob, retryJob } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useJobEvents } from "@/hooks/use-job-events";
+import type { AnalysisResult, EffectivePdfSettings, JobStatus, JobStageRecord, PdfStage } from "@shared/schema";
+
+const STAGE_MESSAGES: Record<PdfStage, string> = {
+  validation: "Validando formato HTML",
+  sanitizing: "Limpiando contenido HTML",
+  browser_launch: "Iniciando motor de renderizado",
+  set_content: "Cargando el reporte",
+  table_optimization: "Optimizando tablas",
+  pdf_write: "Generando PDF final",
+  table_of_contents: "Generando índice",
+  fallback: "Usando método alternativo",
+  post_processing: "Aplicando ajustes finales al PDF",
+  signing: "Firmando digitalmente el PDF",
+  pdfa_validation: "Validando formato de archivo PDF/A",
+};
+
+function describeSettings(settings: EffectivePdfSettings): string {
+  const orientation = settings.orientation === "landscape" ? "horizontal" : "vertical";
+  const { top, right } = settings.margins;
+  // Jobs rendered before the dimensions were stored only have the size name
+  const size = settings.pageSize === "Custom" && settings.width
+    ? `${settings.width}×${settings.height} mm`
+    : `${settings.pageSize} ${orientation}`;
+  const landscape = settings.landscapeTables
+    ? ` · ${settings.landscapeTables} ${settings.landscapeTables === 1 ? "tabla" : "tablas"} en horizontal`
+    : "";
+  const split = settings.splitTables
+    ? ` · ${settings.splitTables} ${settings.splitTables === 1 ? "tabla dividida" : "tablas divididas"} en bloques de columnas`
+    : "";
+  return `${size} · márgenes ${top}/${right} mm · escala ${Math.round(settings.scale * 100)}%${landscape}${split}`;
+}
 
 interface PdfPreviewProps {
   jobId: number | null;
   file: File | null;
   analysis: AnalysisResult | null;
+  onRetryStarted: (jobId: number) => void;
 }
 
-export default function PdfPreview({ jobId, file, analysis }: PdfPreviewProps) {
-  const [progress, setProgress] = useState(0);
+export default function PdfPreview({ jobId, file, analysis, onRetryStarted }: PdfPreviewProps) {
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Updates are pushed over the job event stream; poll only while it is disconnected
+  const eventsConnected = useJobEvents({ jobId: jobId ?? undefined, enabled: !!jobId });
 
-  const { data: job } = useQuery({
+  const { data: job } = useQuery<JobStatus>({
     queryKey: ["/api/job", jobId],
     enabled: !!jobId,
-    refetchInterval: jobId ? 1000 : false,
+    refetchInterval: jobId && !eventsConnected ? 1000 : false,
   });
 
-  useEffect(() => {
-    if (job?.status === "processing") {
-      // Simulate progress based on time elapsed
-      const startTime = new Date(job.createdAt).getTime();
-      const now = Date.now();
-      const elapsed = now - startTime;
-      const estimatedDuration = 10000; // 10 seconds
-      const calculatedProgress = Math.min((elapsed / estimatedDuration) * 100, 95);
-      setProgress(calculatedProgress);
-    } else if (job?.status === "completed") {
-      setProgress(100);
-    } else if (job?.status === "failed") {
-      setProgress(0);
+  const progress = job?.progress ?? 0;
+  const stages: JobStageRecord[] = job ? JSON.parse(job.stages) : [];
+  const currentStage = stages[stages.length - 1];
+  const effectiveSettings: EffectivePdfSettings | null = job?.effectiveSettings ? JSON.parse(job.effectiveSettings) : null;
+
+  async function handleCancel() {
+    if (!jobId) return;
+
+    setIsCancelling(true);
+    try {
+      const cancelledJob = await cancelJob(jobId);
+      queryClient.setQueryData(["/api/job", jobId], { ...cancelledJob, queuePosition: null });
+      queryClient.invalidateQueries({ queryKey: ["/api/recent"] });
+    } catch (error: any) {
+      toast({
+        title: "No se pudo cancelar",
+        description: error.message || "La conversión no pudo cancelarse.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCancelling(false);
     }
-  }, [job]);
+  }
+
+  async function handleRetry() {
+    if (!jobId) return;
+
+    setIsRetrying(true);
+    try {
+      const result = await retryJob(jobId);
+      queryClient.invalidateQueries({ queryKey: ["/api/recent"] });
+      onRetryStarted(result.jobId);
+    } catch (error: any) {
+      toast({
+        title: "No se pudo reintentar",
+        description: error.message || "Intenta cargar el archivo nuevamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRetrying(false);
+    }
+  }
+
+  const retryButton = (
+    <Button variant="outline" onClick={handleRetry} disabled={isRetrying}>
+      <RotateCcw className="mr-2 h-4 w-4" />
+      {isRetrying ? "Reintentando..." : "Intentar nuevamente"}
+    </Button>
+  );
+
+  const cancelButton = (
+    <Button
+      variant="outline"
+      className="w-full mt-6"
+      onClick={handleCancel}
+      disabled={isCancelling}
+    >
+      <XCircle className="mr-2 h-4 w-4" />
+      {isCancelling ? "Cancelando..." : "Cancelar conversión"}
+    </Button>
+  );
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case "completed": return "text-green-600";
       case "processing": return "text-blue-600";
       case "failed": return "text-red-600";
+      case "cancelled": return "text-amber-600";
+      case "expired": return "text-gray-500";
       default: return "text-gray-600";
     }
   };
@@ -51,17 +138,16 @@ export default function PdfPreview({ jobId, file, analysis }: PdfPreviewProps) {
       case "completed": return <CheckCircle className="h-4 w-4" />;
       case "processing": return <Clock className="h-4 w-4 animate-spin" />;
       case "failed": return <AlertCircle className="h-4 w-4" />;
+      case "cancelled": return <XCircle className="h-4 w-4" />;
+      case "expired": return <Clock className="h-4 w-4" />;
       default: return <FileText className="h-4 w-4" />;
     }
   };
 
-  const getProgressMessage = (progress: number) => {
-    if (progress < 20) return "Validando formato HTML...";
-    if (progress < 40) return "Analizando estructura de tablas...";
-    if (progress < 60) return "Aplicando configuración de página...";
-    if (progress < 80) return "Optimizando paginación...";
-    if (progress < 95) return "Generando PDF final...";
-    return "Finalizando proceso...";
+  // Seconds between the job starting and the stage starting
+  const formatStageTime = (stage: JobStageRecord) => {
+    const start = stages[0] ? new Date(stages[0].startedAt).getTime() : 0;
+    return `${((new Date(stage.startedAt).getTime() - start) / 1000).toFixed(1)}s`;
   };
 
   return (
@@ -84,6 +170,20 @@ export default function PdfPreview({ jobId, file, analysis }: PdfPreviewProps) {
               <p className="text-muted-foreground text-sm">Carga un archivo HTML para ver la vista previa</p>
             </div>
           </div>
+        ) : job?.status === "pending" ? (
+          <div className="text-center py-8">
+            <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Clock className="text-primary h-8 w-8" />
+            </div>
+            <h3 className="text-lg font-semibold text-foreground mb-2">En cola</h3>
+            <p className="text-muted-foreground">
+              {job.queuePosition
+                ? `Tu reporte está en la posición ${job.queuePosition} de la cola`
+                : "Tu reporte comenzará a procesarse en breve"}
+            </p>
+            
+            {cancelButton}
+          </div>
         ) : job?.status === "processing" ? (
           <div className="text-center py-8">
             <div className="w-16 h-16 bg-primary rounded-full flex items-center justify-center mx-auto mb-4 upload-animation">
@@ -100,8 +200,28 @@ export default function PdfPreview({ jobId, file, analysis }: PdfPreviewProps) {
             </div>
             
             <div className="text-sm text-muted-foreground">
-              {getProgressMessage(progress)}
+              {currentStage ? `${STAGE_MESSAGES[currentStage.stage]}... (${progress}%)` : "Iniciando..."}
             </div>
+            
+            {stages.length > 0 && (
+              <ul className="mt-4 space-y-1 text-xs text-left">
+                {stages.map((stage, index) => (
+                  <li key={`${stage.stage}-${index}`} className="flex justify-between text-muted-foreground">
+                    <span className={`flex items-center ${stage.finishedAt ? "" : "font-medium text-foreground"}`}>
+                      {stage.finishedAt ? (
+                        <CheckCircle className="mr-1 h-3 w-3 text-green-600" />
+                      ) : (
+                        <Clock className="mr-1 h-3 w-3" />
+                      )}
+                      {STAGE_MESSAGES[stage.stage]}
+                    </span>
+                    <span>{stage.percent}% · {formatStageTime(stage)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            
+            {cancelButton}
           </div>
         ) : job?.status === "completed" ? (
           <div className="text-center py-8">
@@ -109,7 +229,19 @@ export default function PdfPreview({ jobId, file, analysis }: PdfPreviewProps) {
               <CheckCircle className="text-green-600 h-8 w-8" />
             </div>
             <h3 className="text-lg font-semibold text-foreground mb-2">PDF Generado</h3>
-            <p className="text-muted-foreground mb-6">Tu reporte está listo para descargar</p>
+            <p className="text-muted-foreground mb-1">Tu reporte está listo para descargar</p>
+            <div className="text-xs text-muted-foreground space-y-1 mb-6">
+              {effectiveSettings && <p>{describeSettings(effectiveSettings)}</p>}
+              {effectiveSettings?.fittedTables?.map((table) => (
+                <p key={table.index} className={table.fits ? undefined : "text-amber-600"}>
+                  Tabla {table.index}{table.label && ` (${table.label})`}: letra reducida a {table.fontSize}px
+                  {!table.fits && ", sigue sin entrar en el ancho de la página"}
+                </p>
+              ))}
+              {job.signedBy && (
+                <p title={`SHA-256: ${job.signatureHash}`}>Firmado digitalmente por {job.signedBy}</p>
+              )}
+            </div>
             
             <div className="space-y-3">
               <Button 
@@ -138,9 +270,27 @@ export default function PdfPreview({ jobId, file, analysis }: PdfPreviewProps) {
             <h3 className="text-lg font-semibold text-foreground mb-2">Error en la conversión</h3>
             <p className="text-muted-foreground mb-6">{job.error || "Ha ocurrido un error inesperado"}</p>
             
-            <Button variant="outline" onClick={() => window.location.reload()}>
-              Intentar nuevamente
-            </Button>
+            {retryButton}
+          </div>
+        ) : job?.status === "expired" ? (
+          <div className="text-center py-8">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Clock className="text-gray-500 h-8 w-8" />
+            </div>
+            <h3 className="text-lg font-semibold text-foreground mb-2">PDF expirado</h3>
+            <p className="text-muted-foreground mb-6">El archivo fue eliminado por la política de retención</p>
+            
+            {retryButton}
+          </div>
+        ) : job?.status === "cancelled" ? (
+          <div className="text-center py-8">
+            <div className="w-16 h-16 bg-amber-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <XCircle className="text-amber-600 h-8 w-8" />
+            </div>
+            <h3 className="text-lg font-semibold text-foreground mb-2">Conversión cancelada</h3>
+            <p className="text-muted-foreground mb-6">La generación del PDF fue detenida</p>
+            
+            {retryButton}
           </div>
         ) : analysis ? (
           <div className="space-y-4">
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { JobEventMessage, JobStatus, RecentJob } from "@shared/schema";
+
+const RECONNECT_DELAY = 3000;
+const RECENT_REFETCH_DELAY = 500; // a batch creates hundreds of jobs at once
+
+// Jobs that already triggered a refetch of the recent list; stage and progress events of
+// jobs that didn't make it into the list don't trigger another one
+const seenJobIds = new Set<number>();
+let recentRefetchTimer: ReturnType<typeof setTimeout> | undefined;
+
+function refetchRecentJobs() {
+  clearTimeout(recentRefetchTimer);
+  recentRefetchTimer = setTimeout(() => {
+    queryClient.invalidateQueries({ queryKey: ["/api/recent"] });
+  }, RECENT_REFETCH_DELAY);
+}
+
+interface UseJobEventsOptions {
+  jobId?: number; // follow a single job; omit to follow all jobs
+  enabled?: boolean;
+}
+
+function applyJobEvent(message: JobEventMessage) {
+  if (message.type === "queue") {
+    for (const [id, queuePosition] of Object.entries(message.positions)) {
+      queryClient.setQueryData<JobStatus>(["/api/job", Number(id)], (old) =>
+        old ? { ...old, queuePosition } : old
+      );
+    }
+    return;
+  }
+
+  const { job } = message;
+  queryClient.setQueryData<JobStatus>(["/api/job", job.id], (old) =>
+    old ? { ...old, ...job } : old
+  );
+
+  const recentJobs = queryClient.getQueryData<RecentJob[]>(["/api/recent"]);
+  if (recentJobs?.some((recent) => recent.id === job.id)) {
+    queryClient.setQueryData<RecentJob[]>(["/api/recent"], (old) =>
+      old?.map((recent) => (recent.id === job.id ? { ...recent, ...job } : recent))
+    );
+  } else if (recentJobs && !seenJobIds.has(job.id)) {
+    // A job we haven't seen yet - refetch so the list includes it
+    seenJobIds.add(job.id);
+    refetchRecentJobs();
+  }
+}
+
+// Subscribes to /api/jobs/events and writes pushed job updates into the React Query cache.
+// Returns whether the stream is connected, so callers only poll while it is down.
+export function useJobEvents({ jobId, enabled = true }: UseJobEventsOptions = {}): boolean {
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const query = jobId ? `?jobId=${jobId}` : "";
+      socket = new WebSocket(`${protocol}//${window.location.host}/api/jobs/events${query}`);
+
+      socket.onopen = () => {
+        setConnected(true);
+        // Catch up on anything that changed while we were disconnected
+        if (jobId) {
+          queryClient.invalidateQueries({ queryKey: ["/api/job", jobId] });
+        } else {
+          queryClient.invalidateQueries({ queryKey: ["/api/recent"] });
+        }
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          applyJobEvent(JSON.parse(event.data) as JobEventMessage);
+        } catch (error) {
+          console.error("Invalid job event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setConnected(false);
+        if (!closed) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      setConnected(false);
+    };
+  }, [jobId, enabled]);
+
+  return connected;
+}
@@ -1,5 +1,5 @@
 import { apiRequest } from "./queryClient";
-import type { AnalysisResult, PdfConfig } from "@shared/schema";
+import type { AnalysisResult, BatchStatus, PdfConfig, RetryJobRequest } from "@shared/schema";
 
 export async function analyzeFile(file: File): Promise<AnalysisResult> {
   const formData = new FormData();
@@ -9,20 +9,57 @@ export async function analyzeFile(file: File): Promise<AnalysisResult> {
   return response.json();
 }
 
-export async function convertToPdf(file: File, config: PdfConfig): Promise<{ jobId: number; status: string }> {
+export async function convertToPdf(
+  file: File,
+  config: PdfConfig,
+  options: { force?: boolean } = {}
+): Promise<{ jobId: number; status: string; cacheHit: boolean; cachedJobId?: number }> {
   const formData = new FormData();
   formData.append('htmlFile', file);
   formData.append('config', JSON.stringify(config));
+  if (options.force) {
+    formData.append('force', 'true'); // skip the result cache and render again
+  }
   
   const response = await apiRequest('POST', '/api/convert', formData);
   return response.json();
 }
 
+export async function convertBatch(
+  files: File[],
+  config: PdfConfig
+): Promise<{ batchId: number; jobIds: number[]; totalJobs: number }> {
+  const formData = new FormData();
+  files.forEach(file => formData.append('htmlFiles', file));
+  formData.append('config', JSON.stringify(config));
+
+  const response = await apiRequest('POST', '/api/batch', formData);
+  return response.json();
+}
+
+export async function getBatchStatus(batchId: number): Promise<BatchStatus> {
+  const response = await apiRequest('GET', `/api/batch/${batchId}`);
+  return response.json();
+}
+
 export async function getJobStatus(jobId: number) {
   const response = await apiRequest('GET', `/api/job/${jobId}`);
   return response.json();
 }
 
+export async function cancelJob(jobId: number) {
+  const response = await apiRequest('DELETE', `/api/job/${jobId}`);
+  return response.json();
+}
+
+export async function retryJob(
+  jobId: number,
+  request: RetryJobRequest = {}
+): Promise<{ jobId: number; status: string; parentJobId: number }> {
+  const response = await apiRequest('POST', `/api/job/${jobId}/retry`, request);
+  return response.json();
+}
+
 export async function getRecentJobs() {
   const response = await apiRequest('GET', '/api/recent');
   return response.json();
@@ -2,25 +2,81 @@ import { useState } from "react";
 import Header from "@/components/header";
 import FileUpload from "@/components/file-upload";
 import ConfigSimple from "@/components/config-simple";
+import BatchUpload from "@/components/batch-upload";
 import PdfPreview from "@/components/pdf-preview";
 import { ExcelExportButton } from "@/components/excel-export-button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useQuery } from "@tanstack/react-query";
-import { getRecentJobs } from "@/lib/api";
-import { FileText, Download, Clock } from "lucide-react";
-import type { AnalysisResult } from "@shared/schema";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { retryJob } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useJobEvents } from "@/hooks/use-job-events";
+import { FileText, Download, Clock, RotateCcw, CornerDownRight } from "lucide-react";
+import type { AnalysisResult, RecentJob } from "@shared/schema";
+
+// Order jobs so each retry follows the job it retried; groups are sorted by their newest job
+function groupRetryChains(jobs: RecentJob[]): { job: RecentJob; depth: number }[] {
+  const jobsById = new Map(jobs.map(job => [job.id, job]));
+  const placed = new Set<number>();
+  const result: { job: RecentJob; depth: number }[] = [];
+
+  const findRoot = (job: RecentJob) => {
+    let current = job;
+    while (current.parentJobId && jobsById.has(current.parentJobId)) {
+      current = jobsById.get(current.parentJobId)!;
+    }
+    return current;
+  };
+
+  const place = (job: RecentJob, depth: number) => {
+    placed.add(job.id);
+    result.push({ job, depth });
+    jobs
+      .filter(child => child.parentJobId === job.id)
+      .sort((a, b) => a.id - b.id)
+      .forEach(child => place(child, depth + 1));
+  };
+
+  for (const job of jobs) {
+    const root = findRoot(job);
+    if (!placed.has(root.id)) {
+      place(root, 0);
+    }
+  }
+
+  return result;
+}
 
 export default function ConverterPage() {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [jobId, setJobId] = useState<number | null>(null);
 
-  const { data: recentJobs = [] } = useQuery({
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Updates are pushed over the job event stream; poll only while it is disconnected
+  const eventsConnected = useJobEvents();
+
+  const { data: recentJobs = [] } = useQuery<RecentJob[]>({
     queryKey: ["/api/recent"],
-    refetchInterval: 5000,
+    refetchInterval: eventsConnected ? false : 5000,
   });
 
+  const handleRetry = async (job: RecentJob) => {
+    try {
+      const result = await retryJob(job.id);
+      setJobId(result.jobId);
+      queryClient.invalidateQueries({ queryKey: ["/api/recent"] });
+    } catch (error: any) {
+      toast({
+        title: "No se pudo reintentar",
+        description: error.message || "Intenta cargar el archivo nuevamente.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleFileUploaded = (file: File, analysisResult: AnalysisResult) => {
     setUploadedFile(file);
     setAnalysis(analysisResult);
@@ -30,7 +86,7 @@ export default function ConverterPage() {
     setJobId(newJobId);
   };
 
-  const formatTimeAgo = (date: string) => {
+  const formatTimeAgo = (date: string | Date) => {
     const now = new Date();
     const then = new Date(date);
     const diffHours = Math.floor((now.getTime() - then.getTime()) / (1000 * 60 * 60));
@@ -60,6 +116,8 @@ export default function ConverterPage() {
               file={uploadedFile}
               onConversionStarted={handleConversionStarted}
             />
+
+            <BatchUpload />
           </div>
 
           {/* Preview and Actions */}
@@ -68,6 +126,7 @@ export default function ConverterPage() {
               jobId={jobId}
               file={uploadedFile}
               analysis={analysis}
+              onRetryStarted={handleConversionStarted}
             />
             
             {/* Excel Export Button */}
@@ -120,19 +179,38 @@ export default function ConverterPage() {
                       No hay archivos recientes
                     </p>
                   ) : (
-                    recentJobs.slice(0, 3).map((job) => (
-                      <div key={job.id} className="flex items-center space-x-3 p-2 hover:bg-muted rounded-lg cursor-pointer group">
+                    groupRetryChains(recentJobs).map(({ job, depth }) => (
+                      <div
+                        key={job.id}
+                        className="flex items-center space-x-3 p-2 hover:bg-muted rounded-lg cursor-pointer group"
+                        style={{ marginLeft: `${Math.min(depth, 3) * 1.25}rem` }}
+                      >
                         <div className="w-8 h-8 bg-primary/10 rounded-lg flex items-center justify-center">
-                          <FileText className="text-primary h-4 w-4" />
+                          {job.parentJobId ? (
+                            <CornerDownRight className="text-primary h-4 w-4" />
+                          ) : (
+                            <FileText className="text-primary h-4 w-4" />
+                          )}
                         </div>
                         <div className="flex-1 min-w-0">
                           <p className="text-sm font-medium text-cohen-text truncate">
                             {job.filename.replace('.html', '.pdf')}
                           </p>
                           <p className="text-xs text-muted-foreground">
+                            {job.parentJobId ? `Reintento de #${job.parentJobId} · ` : ""}
                             {formatTimeAgo(job.createdAt)}
                           </p>
                         </div>
+                        {(job.status === 'failed' || job.status === 'cancelled') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="opacity-0 group-hover:opacity-100 transition-opacity"
+                            onClick={() => handleRetry(job)}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
                         {job.status === 'completed' && (
                           <Button
                             variant="ghost"
@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "conversion_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"filename" text NOT NULL,
+	"original_html" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"pdf_path" text,
+	"config" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	"error" text
+);
@@ -0,0 +1 @@
+ALTER TABLE "conversion_jobs" ADD COLUMN "priority" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "conversion_jobs" ADD COLUMN "parent_job_id" integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "conversion_jobs" ADD COLUMN "progress" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversion_jobs" ADD COLUMN "stages" text DEFAULT '[]' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "conversion_batches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "conversion_jobs" ADD COLUMN "batch_id" integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "conversion_jobs" ADD COLUMN "content_hash" text;--> statement-breakpoint
+CREATE INDEX "conversion_jobs_content_hash_idx" ON "conversion_jobs" USING btree ("content_hash");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "conversion_jobs" ADD COLUMN "effective_settings" text;
\ No newline at end of file
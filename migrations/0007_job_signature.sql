@@ -0,0 +1,2 @@
+ALTER TABLE "conversion_jobs" ADD COLUMN "signed_by" text;--> statement-breakpoint
+ALTER TABLE "conversion_jobs" ADD COLUMN "signature_hash" text;
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { migrate as migrateNeon } from "drizzle-orm/neon-serverless/migrator";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { migrate as migratePglite } from "drizzle-orm/pglite/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+const MIGRATIONS_FOLDER = "./migrations";
+const PGLITE_PREFIX = "pglite:";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export interface DatabaseConnection {
+  db: Database;
+  migrate(): Promise<void>;
+  close(): Promise<void>;
+}
+
+// DATABASE_URL either points to a real PostgreSQL server (Neon) or, for tests and
+// local development, to an embedded PGlite database:
+//   pglite:memory           -> in-memory database, wiped on restart
+//   pglite://./.data/pglite -> database persisted in the given directory
+export function connectDatabase(databaseUrl: string): DatabaseConnection {
+  if (databaseUrl.startsWith(PGLITE_PREFIX)) {
+    const dataDir = databaseUrl.slice(PGLITE_PREFIX.length).replace(/^\/\//, "");
+    const client = new PGlite(dataDir && dataDir !== "memory" ? dataDir : undefined);
+    const db = drizzlePglite(client, { schema });
+
+    return {
+      db,
+      migrate: () => migratePglite(db, { migrationsFolder: MIGRATIONS_FOLDER }),
+      close: () => client.close(),
+    };
+  }
+
+  neonConfig.webSocketConstructor = ws;
+  const pool = new Pool({ connectionString: databaseUrl });
+  const db = drizzleNeon(pool, { schema });
+
+  return {
+    db,
+    migrate: () => migrateNeon(db, { migrationsFolder: MIGRATIONS_FOLDER }),
+    close: () => pool.end(),
+  };
+}
@@ -1,7 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { initStorage } from "./storage";
 import { cleanupHangingJobs } from "./services/job-timeout-manager.js";
+import { restoreQueue } from "./services/job-queue.js";
+import { startRetentionSweeper } from "./services/retention-manager.js";
+import { warmUpBrowserPool } from "./services/browser-pool.js";
 
 const app = express();
 app.use(express.json());
@@ -38,8 +42,19 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await initStorage();
+
   // Clean up any hanging jobs from previous sessions
   await cleanupHangingJobs();
+
+  // Start Chrome before the first job needs it
+  warmUpBrowserPool();
+
+  // Resume jobs that were still waiting in the queue
+  await restoreQueue();
+
+  // Periodically expire old PDFs and purge stored HTML
+  startRetentionSweeper();
   
   const server = await registerRoutes(app);
 
@@ -1,13 +1,20 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { storage } from "./storage";
-import { insertConversionJobSchema, pdfConfigSchema } from "@shared/schema";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { insertConversionJobSchema, conversionConfigSchema, retryJobSchema, type JobStatus } from "@shared/schema";
 import { analyzeHtml } from "./services/html-parser";
-import { generatePdf } from "./services/pdf-generator";
+import { enqueueJob, getQueuePosition, cancelJob, isCancellable } from "./services/job-queue";
 import { generateExcelFromHtml } from "./services/excel-generator";
+import { setupJobEventStream } from "./services/job-event-stream";
+import { computeContentHash, findCachedResult, createCachedJob } from "./services/result-cache";
+import { separatePasswords, rememberJobPasswords } from "./services/job-passwords";
+import { getSigningStatus } from "./services/pdf-signing";
+import { MAX_BATCH_FILES, extractHtmlFiles, getBatchStatus, createBatchArchive, isHtmlFilename, isZipUpload } from "./services/batch-processor";
 
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -39,6 +46,22 @@ const upload = multer({
   },
 });
 
+// Batch uploads: many HTML reports and/or zip archives of reports
+const batchUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 200 * 1024 * 1024, // zip archives with hundreds of reports
+    files: MAX_BATCH_FILES,
+  },
+  fileFilter: (req, file, cb) => {
+    if (isHtmlFilename(file.originalname) || isZipUpload(file)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Invalid file type. Expected HTML or ZIP file but got: ${file.originalname}`));
+    }
+  },
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   
   // Analyze HTML file
@@ -81,30 +104,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const configData = req.body.config ? JSON.parse(req.body.config) : {};
-      const config = pdfConfigSchema.parse(configData);
+      // Passwords may also come as form fields, e.g. the client's DNI as user password
+      if (req.body.userPassword || req.body.ownerPassword) {
+        configData.encryption = {
+          ...configData.encryption,
+          userPassword: req.body.userPassword || configData.encryption?.userPassword,
+          ownerPassword: req.body.ownerPassword || configData.encryption?.ownerPassword,
+        };
+      }
+      const { storedConfig, passwords } = separatePasswords(conversionConfigSchema.parse(configData));
 
       const htmlContent = req.file.buffer.toString('utf-8');
+      const contentHash = computeContentHash(htmlContent, req.file.originalname, storedConfig);
       
       const jobData = insertConversionJobSchema.parse({
         filename: req.file.originalname,
         originalHtml: htmlContent,
-        config: JSON.stringify(config),
+        config: JSON.stringify(storedConfig),
+        priority: req.body.priority,
+        contentHash,
       });
 
+      // Same report with the same config already rendered: reuse its PDF unless forced
+      const force = req.body.force === 'true' || req.body.force === true;
+      const cachedJob = force || !contentHash ? undefined : await findCachedResult(contentHash);
+      if (cachedJob) {
+        const job = await createCachedJob(jobData, cachedJob);
+        return res.json({ jobId: job.id, status: job.status, queuePosition: null, cacheHit: true, cachedJobId: cachedJob.id });
+      }
+
       const job = await storage.createConversionJob(jobData);
+      rememberJobPasswords(job.id, passwords);
       
-      // Start PDF generation in background
-      generatePdf(htmlContent, config, job.id)
-        .then(async (pdfPath) => {
-          await storage.updateConversionJobStatus(job.id, "completed", pdfPath);
-        })
-        .catch(async (error) => {
-          console.error("PDF generation error:", error);
-          await storage.updateConversionJobStatus(job.id, "failed", undefined, error.message);
-        });
-
-      res.json({ jobId: job.id, status: job.status });
+      // Queue PDF generation; workers pick it up as soon as a slot is free
+      enqueueJob(job);
+
+      res.json({ jobId: job.id, status: job.status, queuePosition: getQueuePosition(job.id), cacheHit: false });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Conversion error:", error);
       res.status(500).json({ message: "Failed to start conversion" });
     }
@@ -120,19 +159,202 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Job not found" });
       }
 
-      res.json(job);
+      const jobStatus: JobStatus = { ...job, queuePosition: getQueuePosition(job.id) };
+      res.json(jobStatus);
     } catch (error) {
       console.error("Job status error:", error);
       res.status(500).json({ message: "Failed to get job status" });
     }
   });
 
+  // Cancel a pending or running job
+  const handleCancelJob = async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.getConversionJob(id);
+      
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      if (!isCancellable(job)) {
+        return res.status(409).json({ message: `Job cannot be cancelled in status "${job.status}"` });
+      }
+
+      const cancelledJob = await cancelJob(id);
+      res.json(cancelledJob);
+    } catch (error) {
+      console.error("Job cancel error:", error);
+      res.status(500).json({ message: "Failed to cancel job" });
+    }
+  };
+
+  app.delete("/api/job/:id", handleCancelJob);
+  app.post("/api/job/:id/cancel", handleCancelJob);
+
+  // Re-render a stored job, optionally overriding parts of its config
+  app.post("/api/job/:id/retry", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parentJob = await storage.getConversionJob(id);
+      
+      if (!parentJob) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      if (isCancellable(parentJob)) {
+        return res.status(409).json({ message: `Job cannot be retried while "${parentJob.status}"` });
+      }
+
+      if (!parentJob.originalHtml) {
+        return res.status(410).json({ message: "Original HTML was removed by the retention policy - please upload the file again" });
+      }
+
+      const { config: overrides = {}, priority } = retryJobSchema.parse(req.body ?? {});
+      const parentConfig = JSON.parse(parentJob.config);
+
+      // Passwords of the parent job were never stored
+      if (parentConfig.encryption && overrides.encryption === undefined) {
+        return res.status(400).json({ message: "The job is encrypted - send config.encryption with the passwords to retry it" });
+      }
+
+      const config = conversionConfigSchema.parse({ ...parentConfig, ...overrides });
+      const { storedConfig, passwords } = separatePasswords(config);
+
+      const job = await storage.createConversionJob(insertConversionJobSchema.parse({
+        filename: parentJob.filename,
+        originalHtml: parentJob.originalHtml,
+        config: JSON.stringify(storedConfig),
+        priority: priority ?? parentJob.priority,
+        parentJobId: parentJob.id,
+        contentHash: computeContentHash(parentJob.originalHtml, parentJob.filename, storedConfig),
+      }));
+      rememberJobPasswords(job.id, passwords);
+
+      enqueueJob(job);
+
+      res.json({ jobId: job.id, status: job.status, parentJobId: parentJob.id, queuePosition: getQueuePosition(job.id) });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Job retry error:", error);
+      res.status(500).json({ message: "Failed to retry job" });
+    }
+  });
+
+  // Create a batch of conversion jobs from several HTML files or zip archives
+  app.post("/api/batch", batchUpload.array('htmlFiles', MAX_BATCH_FILES), async (req, res) => {
+    try {
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No HTML or ZIP files provided" });
+      }
+
+      const configData = req.body.config ? JSON.parse(req.body.config) : {};
+      const { storedConfig, passwords } = separatePasswords(conversionConfigSchema.parse(configData));
+
+      let htmlFiles;
+      try {
+        htmlFiles = await extractHtmlFiles(files);
+      } catch (error) {
+        return res.status(400).json({ message: error instanceof Error ? error.message : "Invalid batch upload" });
+      }
+
+      if (htmlFiles.length === 0) {
+        return res.status(400).json({ message: "No HTML reports found in the uploaded files" });
+      }
+
+      // Everything is validated before the batch is stored, so a bad field leaves nothing behind
+      const { priority } = insertConversionJobSchema.pick({ priority: true }).parse({ priority: req.body.priority });
+      const jobsData = htmlFiles.map(htmlFile => insertConversionJobSchema.parse({
+        filename: htmlFile.filename,
+        originalHtml: htmlFile.html,
+        config: JSON.stringify(storedConfig),
+        priority,
+        contentHash: computeContentHash(htmlFile.html, htmlFile.filename, storedConfig),
+      }));
+
+      const { batch, jobs } = await storage.createConversionBatch({
+        name: req.body.name || files.map(file => file.originalname).join(", ").slice(0, 200),
+      }, jobsData);
+
+      const jobIds: number[] = [];
+      for (const job of jobs) {
+        rememberJobPasswords(job.id, passwords);
+        enqueueJob(job);
+        jobIds.push(job.id);
+      }
+
+      console.log(`Created batch ${batch.id} with ${jobIds.length} jobs`);
+      res.json({ batchId: batch.id, jobIds, totalJobs: jobIds.length });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Batch conversion error:", error);
+      res.status(500).json({ message: "Failed to start batch conversion" });
+    }
+  });
+
+  // Get aggregate batch status
+  app.get("/api/batch/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const batch = await storage.getConversionBatch(id);
+
+      if (!batch) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+
+      const jobs = await storage.getBatchJobs(id);
+      res.json(getBatchStatus(batch, jobs));
+    } catch (error) {
+      console.error("Batch status error:", error);
+      res.status(500).json({ message: "Failed to get batch status" });
+    }
+  });
+
+  // Download all finished PDFs of a batch as a zip with a manifest of failures
+  app.get("/api/batch/:id/download", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const batch = await storage.getConversionBatch(id);
+
+      if (!batch) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+
+      const jobs = await storage.getBatchJobs(id);
+      if (getBatchStatus(batch, jobs).status !== "completed") {
+        return res.status(409).json({ message: "Batch is still processing" });
+      }
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="lote-${batch.id}.zip"`);
+
+      const archive = createBatchArchive(batch, jobs);
+      archive.on('error', (error) => {
+        console.error("Batch archive error:", error);
+        res.destroy(error);
+      });
+      archive.pipe(res);
+    } catch (error) {
+      console.error("Batch download error:", error);
+      res.status(500).json({ message: "Failed to download batch" });
+    }
+  });
+
   // Download PDF
   app.get("/api/download/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const job = await storage.getConversionJob(id);
       
+      if (job?.status === "expired") {
+        return res.status(410).json({ message: "PDF expired and was removed by the retention policy" });
+      }
+
       if (!job || !job.pdfPath) {
         return res.status(404).json({ message: "PDF not found" });
       }
@@ -181,6 +403,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Whether PDFs can be signed, and with which certificate
+  app.get("/api/signing", async (req, res) => {
+    try {
+      res.json(await getSigningStatus());
+    } catch (error) {
+      console.error("Signing status error:", error);
+      res.status(500).json({ message: "Failed to get signing status" });
+    }
+  });
+
   // Get recent jobs
   app.get("/api/recent", async (req, res) => {
     try {
@@ -193,5 +425,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+
+  // Push job status/progress updates at /api/jobs/events
+  setupJobEventStream(httpServer);
+
   return httpServer;
 }
@@ -0,0 +1,185 @@
+// Batch conversion: unpack uploads into HTML reports, derive batch status from the
+// child jobs and build the zip of finished PDFs
+import JSZip from 'jszip';
+import fs from 'fs';
+import path from 'path';
+import type { BatchJob, BatchStatus, ConversionBatch } from '../../shared/schema.js';
+
+export const MAX_BATCH_FILES = 500;
+// Same limit as a single upload to /api/convert
+const MAX_REPORT_BYTES = 50 * 1024 * 1024;
+const MAX_BATCH_BYTES = 500 * 1024 * 1024;
+
+const ACTIVE_STATUSES = ['pending', 'processing'];
+
+export interface BatchHtmlFile {
+  filename: string;
+  html: string;
+}
+
+export function isZipUpload(file: Express.Multer.File): boolean {
+  return file.originalname.toLowerCase().endsWith('.zip') ||
+    file.mimetype === 'application/zip' ||
+    file.mimetype === 'application/x-zip-compressed';
+}
+
+export function isHtmlFilename(filename: string): boolean {
+  const lower = filename.toLowerCase();
+  return lower.endsWith('.html') || lower.endsWith('.htm');
+}
+
+// Collect the HTML reports from uploaded .html files and .zip archives. Limits are checked
+// against the declared sizes before anything is inflated, and again while inflating
+export async function extractHtmlFiles(files: Express.Multer.File[]): Promise<BatchHtmlFile[]> {
+  const htmlFiles: BatchHtmlFile[] = [];
+  let totalBytes = 0;
+
+  for (const file of files) {
+    if (!isZipUpload(file)) {
+      checkBatchLimits(file.originalname, file.size, htmlFiles.length + 1, totalBytes);
+      totalBytes += file.size;
+      htmlFiles.push({ filename: file.originalname, html: file.buffer.toString('utf-8') });
+      continue;
+    }
+
+    const zip = await JSZip.loadAsync(file.buffer);
+    const entries = Object.values(zip.files).filter(entry =>
+      !entry.dir &&
+      !entry.name.startsWith('__MACOSX/') &&
+      !path.basename(entry.name).startsWith('.') &&
+      isHtmlFilename(entry.name)
+    );
+
+    console.log(`Found ${entries.length} HTML reports in ${file.originalname}`);
+    checkReportCount(htmlFiles.length + entries.length);
+    let declaredBytes = totalBytes;
+    for (const entry of entries) {
+      const size = declaredSize(entry);
+      checkBatchLimits(entry.name, size, htmlFiles.length + entries.length, declaredBytes);
+      declaredBytes += size;
+    }
+
+    for (const entry of entries) {
+      const content = await readEntry(entry, Math.min(MAX_REPORT_BYTES, MAX_BATCH_BYTES - totalBytes));
+      totalBytes += content.length;
+      htmlFiles.push({ filename: path.basename(entry.name), html: content.toString('utf-8') });
+    }
+  }
+
+  return htmlFiles;
+}
+
+function checkReportCount(count: number): void {
+  if (count > MAX_BATCH_FILES) {
+    throw new Error(`A batch can contain at most ${MAX_BATCH_FILES} reports (got ${count})`);
+  }
+}
+
+function checkBatchLimits(name: string, size: number, count: number, previousBytes: number): void {
+  checkReportCount(count);
+  if (size > MAX_REPORT_BYTES) {
+    throw new Error(`${name} is larger than ${formatMegabytes(MAX_REPORT_BYTES)}`);
+  }
+  if (previousBytes + size > MAX_BATCH_BYTES) {
+    throw new Error(`The reports of a batch can add up to at most ${formatMegabytes(MAX_BATCH_BYTES)}`);
+  }
+}
+
+// Size recorded in the zip's central directory; JSZip keeps it in a private field
+function declaredSize(entry: JSZip.JSZipObject): number {
+  const data = (entry as JSZip.JSZipObject & { _data?: { uncompressedSize?: number } })._data;
+  return data?.uncompressedSize ?? 0;
+}
+
+// Inflates an entry, giving up as soon as it goes past the limit (the declared size may lie)
+function readEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.pause();
+        stream.removeAllListeners('data');
+        reject(new Error(`${entry.name} goes past the size limit of a batch (${formatMegabytes(limit)} left)`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.floor(bytes / (1024 * 1024))}MB`;
+}
+
+export function getBatchStatus(batch: ConversionBatch, jobs: BatchJob[]): BatchStatus {
+  const counts: Record<string, number> = {};
+  let progressSum = 0;
+
+  for (const job of jobs) {
+    counts[job.status] = (counts[job.status] || 0) + 1;
+    // Failed/cancelled jobs are done too - they count as finished for the aggregate
+    progressSum += ACTIVE_STATUSES.includes(job.status) ? job.progress : 100;
+  }
+
+  const isActive = jobs.some(job => ACTIVE_STATUSES.includes(job.status));
+
+  return {
+    ...batch,
+    status: isActive ? 'processing' : 'completed',
+    progress: jobs.length > 0 ? Math.round(progressSum / jobs.length) : 100,
+    counts,
+    jobs,
+  };
+}
+
+// Zip with every completed PDF plus manifest.json describing what is missing and why
+export function createBatchArchive(batch: ConversionBatch, jobs: BatchJob[]): NodeJS.ReadableStream {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  const included: { jobId: number; source: string; pdf: string }[] = [];
+  const failures: { jobId: number; source: string; status: string; error: string | null }[] = [];
+
+  for (const job of jobs) {
+    if (job.status === 'completed' && job.pdfPath && fs.existsSync(job.pdfPath)) {
+      const pdfName = uniqueName(job.filename.replace(/\.html?$/i, '') + '.pdf', usedNames);
+      // Stream each PDF from disk instead of loading the whole batch in memory
+      zip.file(pdfName, fs.createReadStream(job.pdfPath));
+      included.push({ jobId: job.id, source: job.filename, pdf: pdfName });
+    } else {
+      failures.push({
+        jobId: job.id,
+        source: job.filename,
+        status: job.status,
+        error: job.status === 'completed' ? 'PDF file not found' : job.error,
+      });
+    }
+  }
+
+  const manifest = {
+    batchId: batch.id,
+    name: batch.name,
+    createdAt: batch.createdAt,
+    total: jobs.length,
+    included,
+    failures,
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+  return zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true });
+}
+
+function uniqueName(name: string, usedNames: Set<string>): string {
+  let candidate = name;
+  const extension = path.extname(name);
+  const base = name.slice(0, name.length - extension.length);
+  for (let copy = 2; usedNames.has(candidate.toLowerCase()); copy++) {
+    candidate = `${base} (${copy})${extension}`;
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
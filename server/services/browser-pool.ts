@@ -0,0 +1,266 @@
+// Pool of warm Chrome instances shared by all PDF jobs. Each job leases a fresh page;
+// browsers are recycled after BROWSER_MAX_JOBS jobs or as soon as they crash.
+import puppeteer, { type Browser, type Page, type LaunchOptions } from 'puppeteer';
+import fs from 'fs/promises';
+import { execSync } from 'child_process';
+
+const POOL_SIZE = Math.max(1, parseInt(process.env.BROWSER_POOL_SIZE || process.env.PDF_WORKER_CONCURRENCY || '2', 10));
+const MAX_JOBS_PER_BROWSER = Math.max(1, parseInt(process.env.BROWSER_MAX_JOBS || '50', 10));
+const LAUNCH_TIMEOUT = 60000;
+
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--no-first-run',
+  '--no-zygote',
+  '--disable-gpu',
+  '--disable-background-timer-throttling',
+  '--disable-backgrounding-occluded-windows',
+  '--disable-renderer-backgrounding',
+  '--disable-features=TranslateUI',
+  '--disable-ipc-flooding-protection',
+  '--disable-plugins',
+  '--disable-web-security',
+  '--disable-features=VizDisplayCompositor',
+  '--disable-extensions',
+  '--disable-default-apps',
+  '--window-size=1920,1080'
+];
+
+interface PooledBrowser {
+  ready: Promise<Browser>;
+  browser?: Browser;
+  jobsServed: number;
+  activeLeases: number;
+}
+
+export interface PageLease {
+  page: Page;
+  release(): Promise<void>;
+}
+
+// Browsers accepting new leases. Retired/crashed browsers are removed from here and
+// closed once their last lease is released.
+const POOL: PooledBrowser[] = [];
+
+let executablePathPromise: Promise<string | undefined> | undefined;
+
+// Executable discovery runs once per process - it may shell out to `find /nix/store`
+export function resolveExecutablePath(): Promise<string | undefined> {
+  if (!executablePathPromise) {
+    executablePathPromise = findExecutablePath();
+  }
+  return executablePathPromise;
+}
+
+export async function leasePage(): Promise<PageLease> {
+  const entry = acquireBrowser();
+  entry.activeLeases++;
+  entry.jobsServed++;
+
+  // Take the browser out of rotation once it has served its quota; it stays alive
+  // until the leases already handed out are released
+  if (entry.jobsServed >= MAX_JOBS_PER_BROWSER) {
+    console.log(`Recycling browser after ${entry.jobsServed} jobs`);
+    removeFromPool(entry);
+    refillPool();
+  }
+
+  try {
+    const browser = await entry.ready;
+    const page = await browser.newPage();
+    return { page, release: () => releasePage(entry, page) };
+  } catch (error) {
+    entry.activeLeases--;
+    await closeIfUnused(entry);
+    throw error;
+  }
+}
+
+// Launch browsers up front so the first jobs don't pay the startup cost
+export function warmUpBrowserPool(): void {
+  console.log(`Warming up browser pool (${POOL_SIZE} browsers, recycled every ${MAX_JOBS_PER_BROWSER} jobs)`);
+  refillPool();
+}
+
+export async function closeBrowserPool(): Promise<void> {
+  const entries = POOL.splice(0, POOL.length);
+  await Promise.all(entries.map(async (entry) => {
+    try {
+      const browser = await entry.ready;
+      await browser.close();
+    } catch (error) {
+      // already gone
+    }
+  }));
+}
+
+function acquireBrowser(): PooledBrowser {
+  refillPool();
+  // Spread jobs over the pool: pick the browser with the fewest active pages
+  return POOL.reduce((best, entry) => (entry.activeLeases < best.activeLeases ? entry : best));
+}
+
+function refillPool(): void {
+  while (POOL.length < POOL_SIZE) {
+    POOL.push(createPooledBrowser());
+  }
+}
+
+function createPooledBrowser(): PooledBrowser {
+  const entry: PooledBrowser = { ready: launchBrowser(), jobsServed: 0, activeLeases: 0 };
+
+  entry.ready
+    .then((browser) => {
+      entry.browser = browser;
+      browser.on('disconnected', () => {
+        if (POOL.includes(entry)) {
+          console.error('Pooled browser disconnected, replacing it');
+          removeFromPool(entry);
+          refillPool();
+        }
+      });
+    })
+    .catch((error) => {
+      // Don't keep a broken slot around; the next lease will try launching again
+      console.error('Failed to launch pooled browser:', error instanceof Error ? error.message : error);
+      removeFromPool(entry);
+    });
+
+  return entry;
+}
+
+async function releasePage(entry: PooledBrowser, page: Page): Promise<void> {
+  try {
+    if (!page.isClosed()) {
+      await page.close();
+    }
+  } catch (error) {
+    console.error('Error closing page:', error);
+  } finally {
+    entry.activeLeases--;
+    await closeIfUnused(entry);
+  }
+}
+
+async function closeIfUnused(entry: PooledBrowser): Promise<void> {
+  if (POOL.includes(entry) || entry.activeLeases > 0 || !entry.browser) return;
+
+  try {
+    if (entry.browser.connected) {
+      console.log('Closing retired browser...');
+      await entry.browser.close();
+    }
+  } catch (error) {
+    console.error('Error closing retired browser:', error);
+  }
+}
+
+function removeFromPool(entry: PooledBrowser): void {
+  const index = POOL.indexOf(entry);
+  if (index !== -1) {
+    POOL.splice(index, 1);
+  }
+}
+
+async function launchBrowser(): Promise<Browser> {
+  const executablePath = await resolveExecutablePath();
+  const launchOptions: LaunchOptions = {
+    headless: true,
+    timeout: LAUNCH_TIMEOUT,
+    args: LAUNCH_ARGS,
+    executablePath,
+  };
+
+  console.log('Launching Puppeteer browser...');
+  try {
+    const browser = await puppeteer.launch(launchOptions);
+    console.log('Browser launched successfully');
+    return browser;
+  } catch (error) {
+    console.error('Failed to launch browser with custom path:', error instanceof Error ? error.message : error);
+    console.error('Attempting fallback approaches...');
+  }
+
+  // Multiple fallback attempts
+  const fallbackAttempts = [
+    () => {
+      console.log('Trying without executable path...');
+      return puppeteer.launch({ ...launchOptions, executablePath: undefined });
+    },
+    () => {
+      console.log('Trying with minimal args...');
+      return puppeteer.launch({
+        headless: true,
+        args: ['--no-sandbox', '--disable-setuid-sandbox']
+      });
+    },
+    () => {
+      console.log('Trying with bundled Chromium...');
+      return puppeteer.launch({
+        headless: true,
+        args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
+      });
+    }
+  ];
+
+  for (const attempt of fallbackAttempts) {
+    try {
+      const browser = await attempt();
+      console.log('Fallback browser launch successful');
+      return browser;
+    } catch (fallbackError) {
+      console.error('Fallback attempt failed:', fallbackError instanceof Error ? fallbackError.message : fallbackError);
+    }
+  }
+
+  throw new Error('All browser launch attempts failed');
+}
+
+async function findExecutablePath(): Promise<string | undefined> {
+  // Try multiple Chrome executable paths
+  const possiblePaths = [
+    process.env.PUPPETEER_EXECUTABLE_PATH,
+    '/home/runner/workspace/.cache/puppeteer/chrome/linux-138.0.7204.157/chrome-linux64/chrome',
+    '/home/runner/.cache/puppeteer/chrome/linux-138.0.7204.157/chrome-linux64/chrome',
+    '/nix/store/zi4f80l169xlmivz8vja8wlphq74qqk0-chromium-125.0.6422.141/bin/chromium'
+  ].filter((candidate): candidate is string => Boolean(candidate));
+
+  for (const candidate of possiblePaths) {
+    try {
+      await fs.access(candidate);
+      console.log(`Found Chrome at: ${candidate}`);
+      return candidate;
+    } catch (error) {
+      console.log(`Chrome not found at: ${candidate}`);
+    }
+  }
+
+  // Try with Nix store glob pattern
+  try {
+    const nixChrome = execSync('find /nix/store -name chromium -path "*/bin/chromium" 2>/dev/null | head -1', { encoding: 'utf8' }).trim();
+    if (nixChrome) {
+      await fs.access(nixChrome);
+      console.log(`Found Chrome via find: ${nixChrome}`);
+      return nixChrome;
+    }
+  } catch (error) {
+    console.log('Nix store search failed:', error instanceof Error ? error.message : error);
+  }
+
+  // Try to use system Chrome/Chromium
+  try {
+    const systemChrome = execSync('which chromium || which google-chrome || which chrome 2>/dev/null', { encoding: 'utf8' }).trim();
+    if (systemChrome) {
+      console.log(`Found system Chrome: ${systemChrome}`);
+      return systemChrome;
+    }
+  } catch (error) {
+    console.log('System Chrome search failed:', error instanceof Error ? error.message : error);
+  }
+
+  console.log('No Chrome executable found, using default Puppeteer');
+  return undefined;
+}
@@ -0,0 +1,94 @@
+// Page header/footer stamped onto the rendered PDF with pdf-lib, so the Puppeteer path
+// and the html-pdf-node fallback get the same result
+import { rgb, type PDFDocument, type PDFFont, type PDFPage } from 'pdf-lib';
+import type { PdfConfig } from '../../shared/schema.js';
+import type { PageSettings } from './page-settings.js';
+import { embedStampFont } from './stamp-fonts.js';
+
+const FONT_SIZE = 7.5;
+const TEXT_COLOR = rgb(0.4, 0.4, 0.4);
+const MM_TO_PT = 72 / 25.4;
+
+export interface TemplateContext {
+  filename: string;
+  date: string; // generation date, already formatted
+  account: string | null;
+  period: string | null;
+}
+
+export function hasHeaderFooter(config: PdfConfig): boolean {
+  return Boolean(config.headerTemplate || config.footerTemplate);
+}
+
+export async function stampHeaderFooter(
+  pdfDoc: PDFDocument,
+  config: PdfConfig,
+  settings: PageSettings,
+  context: TemplateContext
+): Promise<void> {
+  if (!hasHeaderFooter(config)) return;
+
+  const font = await embedStampFont(pdfDoc, 'regular', config.outputProfile);
+  const pages = pdfDoc.getPages();
+  const { top, right, bottom, left } = settings.margins;
+
+  pages.forEach((page, index) => {
+    if (index === 0 && !config.headerFooterOnFirstPage) return;
+
+    const values: Record<string, string> = {
+      page: String(index + 1),
+      pages: String(pages.length),
+      filename: context.filename,
+      date: context.date,
+      account: context.account ?? '',
+      period: context.period ?? '',
+    };
+    const bounds = { left: left * MM_TO_PT, right: page.getWidth() - right * MM_TO_PT };
+
+    if (config.headerTemplate) {
+      // Vertically centered in the top margin
+      const y = page.getHeight() - (top * MM_TO_PT) / 2 - FONT_SIZE / 3;
+      drawTemplateLine(page, font, fillTemplate(config.headerTemplate, values), y, bounds);
+    }
+    if (config.footerTemplate) {
+      const y = (bottom * MM_TO_PT) / 2 - FONT_SIZE / 3;
+      drawTemplateLine(page, font, fillTemplate(config.footerTemplate, values), y, bounds);
+    }
+  });
+}
+
+function fillTemplate(template: string, values: Record<string, string>): string {
+  // Unknown placeholders are left as typed so mistakes are visible in the PDF
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? values[key] : match));
+}
+
+// "left | center | right"; a single part is centered, two parts go left and right
+function drawTemplateLine(
+  page: PDFPage,
+  font: PDFFont,
+  line: string,
+  y: number,
+  bounds: { left: number; right: number }
+): void {
+  const parts = line.split('|').map(part => toFontCharset(font, part.trim()));
+  const [leftText, centerText, rightText] =
+    parts.length === 1 ? ['', parts[0], ''] :
+    parts.length === 2 ? [parts[0], '', parts[1]] :
+    parts;
+
+  const draw = (text: string, x: number) => {
+    if (text) {
+      page.drawText(text, { x, y, size: FONT_SIZE, font, color: TEXT_COLOR });
+    }
+  };
+
+  draw(leftText, bounds.left);
+  draw(centerText, (bounds.left + bounds.right - font.widthOfTextAtSize(centerText, FONT_SIZE)) / 2);
+  draw(rightText, bounds.right - font.widthOfTextAtSize(rightText, FONT_SIZE));
+}
+
+// Drop characters the font can't encode (standard fonts only cover WinAnsi) instead of failing the job
+export function toFontCharset(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text).filter(char => supported.has(char.codePointAt(0)!)).join('');
+}
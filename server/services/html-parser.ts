@@ -208,3 +208,22 @@ export function injectCohenStyles(htmlContent: string): string {
   
   return $.html();
 }
+
+export interface ReportDetails {
+  account: string | null; // "para la cuenta 21677"
+  period: string | null; // "Resumen de NOVIEMBRE"
+}
+
+// Values from the report heading, used by header/footer placeholders
+export function extractReportDetails(htmlContent: string): ReportDetails {
+  const $ = cheerio.load(htmlContent);
+  const text = $('body').text().replace(/\s+/g, ' ');
+
+  const account = text.match(/para la cuenta\s+([\w-]+)/i);
+  const period = text.match(/Resumen de\s+(.+?)\s+para la cuenta/i);
+
+  return {
+    account: account ? account[1] : null,
+    period: period ? period[1].trim() : null,
+  };
+}
@@ -0,0 +1,90 @@
+// WebSocket stream at /api/jobs/events pushing job status and progress changes.
+// Connect with ?jobId=<id> to follow one job, or without it to follow all jobs.
+import type { Server } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { storage } from '../storage.js';
+import type { ConversionJob, JobEventMessage, JobUpdate } from '../../shared/schema.js';
+import { onJobUpdate, onQueueChange } from './job-events.js';
+import { getQueuePosition, getQueuePositions } from './job-queue.js';
+
+export const JOB_EVENTS_PATH = '/api/jobs/events';
+const HEARTBEAT_INTERVAL = 30000; // drop connections that stop answering pings
+
+function toJobUpdate(job: ConversionJob): JobUpdate {
+  // The original HTML can be megabytes - clients never need it in a status update
+  const { originalHtml, ...rest } = job;
+  return { ...rest, queuePosition: getQueuePosition(job.id) };
+}
+
+export function setupJobEventStream(httpServer: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Only take over our own path; other upgrades (e.g. Vite HMR) are left alone
+  httpServer.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== JOB_EVENTS_PATH) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit('connection', ws, req);
+    });
+  });
+
+  wss.on('connection', async (ws: WebSocket & { isAlive?: boolean }, req) => {
+    const jobIdParam = new URL(req.url || '/', 'http://localhost').searchParams.get('jobId');
+    const jobId = jobIdParam ? parseInt(jobIdParam, 10) : null;
+
+    const send = (message: JobEventMessage) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    };
+
+    const unsubscribeJob = onJobUpdate((job) => {
+      if (jobId === null || job.id === jobId) {
+        send({ type: 'job', job: toJobUpdate(job) });
+      }
+    });
+
+    const unsubscribeQueue = onQueueChange(() => {
+      const positions = getQueuePositions();
+      if (jobId === null) {
+        send({ type: 'queue', positions });
+      } else if (positions[jobId]) {
+        send({ type: 'queue', positions: { [jobId]: positions[jobId] } });
+      }
+    });
+
+    ws.isAlive = true;
+    ws.on('pong', () => {
+      ws.isAlive = true;
+    });
+
+    ws.on('close', () => {
+      unsubscribeJob();
+      unsubscribeQueue();
+    });
+
+    // Send the current state so nothing is missed between fetching and subscribing
+    if (jobId !== null) {
+      try {
+        const job = await storage.getConversionJob(jobId);
+        if (job) send({ type: 'job', job: toJobUpdate(job) });
+      } catch (error) {
+        console.error(`Failed to send initial state for job ${jobId}:`, error);
+      }
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((client: WebSocket & { isAlive?: boolean }) => {
+      if (client.isAlive === false) {
+        client.terminate();
+        return;
+      }
+      client.isAlive = false;
+      client.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  wss.on('close', () => clearInterval(heartbeat));
+}
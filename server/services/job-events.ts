@@ -0,0 +1,24 @@
+// In-process notifications about job changes, consumed by the /api/jobs/events stream
+import { EventEmitter } from 'events';
+import type { ConversionJob } from '../../shared/schema.js';
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // one listener per connected client
+
+export function publishJobUpdate(job: ConversionJob): void {
+  emitter.emit('job', job);
+}
+
+export function publishQueueChange(): void {
+  emitter.emit('queue');
+}
+
+export function onJobUpdate(listener: (job: ConversionJob) => void): () => void {
+  emitter.on('job', listener);
+  return () => emitter.off('job', listener);
+}
+
+export function onQueueChange(listener: () => void): () => void {
+  emitter.on('queue', listener);
+  return () => emitter.off('queue', listener);
+}
@@ -0,0 +1,42 @@
+// Encryption passwords of queued and running jobs. They only live in this process: the
+// config stored with the job keeps the encryption permissions but never the passwords,
+// so an encrypted job restored after a restart has to be submitted again.
+import type { PdfConfig, PdfEncryptionConfig } from '../../shared/schema.js';
+
+type PdfPasswords = Pick<PdfEncryptionConfig, 'userPassword' | 'ownerPassword'>;
+
+const JOB_PASSWORDS = new Map<number, PdfPasswords>();
+
+// Config safe to persist, and the passwords to keep in memory (if the job is encrypted)
+export function separatePasswords(config: PdfConfig): { storedConfig: PdfConfig; passwords?: PdfPasswords } {
+  if (!config.encryption) {
+    return { storedConfig: config };
+  }
+
+  const { userPassword, ownerPassword, ...encryption } = config.encryption;
+  return {
+    storedConfig: { ...config, encryption },
+    passwords: { userPassword, ownerPassword },
+  };
+}
+
+export function rememberJobPasswords(jobId: number, passwords: PdfPasswords | undefined): void {
+  if (passwords) {
+    JOB_PASSWORDS.set(jobId, passwords);
+  }
+}
+
+// Stored config with the passwords put back, or null if the job is encrypted but its
+// passwords were lost (server restart)
+export function restorePasswords(jobId: number, config: PdfConfig): PdfConfig | null {
+  if (!config.encryption) {
+    return config;
+  }
+
+  const passwords = JOB_PASSWORDS.get(jobId);
+  return passwords ? { ...config, encryption: { ...config.encryption, ...passwords } } : null;
+}
+
+export function forgetJobPasswords(jobId: number): void {
+  JOB_PASSWORDS.delete(jobId);
+}
@@ -0,0 +1,61 @@
+// Stage-based progress reporting for PDF jobs
+import { storage } from '../storage.js';
+import type { JobStageRecord, PdfStage } from '../../shared/schema.js';
+
+// Overall progress when each stage starts
+const STAGE_PERCENT: Record<PdfStage, number> = {
+  validation: 5,
+  sanitizing: 10,
+  browser_launch: 20,
+  set_content: 40,
+  table_optimization: 60,
+  pdf_write: 75,
+  table_of_contents: 82,
+  fallback: 50,
+  post_processing: 90,
+  signing: 93,
+  pdfa_validation: 95,
+};
+
+export interface ProgressReporter {
+  stage(stage: PdfStage): Promise<void>;
+  complete(): Promise<void>;
+}
+
+export function createProgressReporter(jobId: number): ProgressReporter {
+  const stages: JobStageRecord[] = [];
+  let progress = 0;
+
+  const finishCurrentStage = () => {
+    const current = stages[stages.length - 1];
+    if (current && !current.finishedAt) {
+      current.finishedAt = new Date().toISOString();
+    }
+  };
+
+  // Progress is informational - a failed write must never break the render
+  const save = async () => {
+    try {
+      await storage.updateConversionJobProgress(jobId, progress, stages);
+    } catch (error) {
+      console.error(`Failed to save progress for job ${jobId}:`, error);
+    }
+  };
+
+  return {
+    async stage(stage: PdfStage) {
+      finishCurrentStage();
+      // Never move backwards, e.g. when falling back after a late failure
+      progress = Math.max(progress, STAGE_PERCENT[stage]);
+      stages.push({ stage, percent: progress, startedAt: new Date().toISOString(), finishedAt: null });
+      console.log(`Job ${jobId} stage: ${stage} (${progress}%)`);
+      await save();
+    },
+
+    async complete() {
+      finishCurrentStage();
+      progress = 100;
+      await save();
+    },
+  };
+}
@@ -0,0 +1,151 @@
+// Bounded job queue so concurrent uploads don't launch one Chrome instance each
+import fs from 'fs/promises';
+import { storage } from '../storage.js';
+import { pdfConfigSchema, type ConversionJob } from '../../shared/schema.js';
+import { generatePdf, abortPdfGeneration, JobCancelledError } from './pdf-generator.js';
+import { clearJobTimeout } from './job-timeout-manager.js';
+import { publishQueueChange } from './job-events.js';
+import { forgetJobPasswords, restorePasswords } from './job-passwords.js';
+
+const MAX_CONCURRENT_JOBS = Math.max(1, parseInt(process.env.PDF_WORKER_CONCURRENCY || '2', 10));
+const CANCELLABLE_STATUSES = ['pending', 'processing'];
+
+interface QueuedJob {
+  id: number;
+  priority: number;
+}
+
+// Pending jobs ordered by priority (highest first), FIFO within the same priority.
+// The queue itself lives in storage (status "pending"); this is just the in-process view.
+const PENDING_JOBS: QueuedJob[] = [];
+const RUNNING_JOBS = new Set<number>();
+
+export function enqueueJob(job: ConversionJob): void {
+  if (RUNNING_JOBS.has(job.id) || PENDING_JOBS.some(queued => queued.id === job.id)) {
+    return;
+  }
+
+  // Insert after every job with the same or higher priority to keep FIFO order
+  const index = PENDING_JOBS.findIndex(queued => queued.priority < job.priority);
+  const entry = { id: job.id, priority: job.priority };
+  if (index === -1) {
+    PENDING_JOBS.push(entry);
+  } else {
+    PENDING_JOBS.splice(index, 0, entry);
+  }
+
+  console.log(`Job ${job.id} queued (priority ${job.priority}, position ${getQueuePosition(job.id)})`);
+  publishQueueChange();
+  processQueue();
+}
+
+// 1-based position of a pending job, or null if it is not waiting in the queue
+export function getQueuePosition(jobId: number): number | null {
+  const index = PENDING_JOBS.findIndex(queued => queued.id === jobId);
+  return index === -1 ? null : index + 1;
+}
+
+// Positions of every pending job, keyed by job id
+export function getQueuePositions(): Record<number, number> {
+  return Object.fromEntries(PENDING_JOBS.map((queued, index) => [queued.id, index + 1]));
+}
+
+export function getQueueStats(): { pending: number; running: number; concurrency: number } {
+  return {
+    pending: PENDING_JOBS.length,
+    running: RUNNING_JOBS.size,
+    concurrency: MAX_CONCURRENT_JOBS,
+  };
+}
+
+export function isCancellable(job: ConversionJob): boolean {
+  return CANCELLABLE_STATUSES.includes(job.status);
+}
+
+// Cancel a pending or running job: drop it from the queue and close its page (the
+// render then removes its partial output). Returns the updated job, or undefined if it doesn't exist.
+export async function cancelJob(jobId: number): Promise<ConversionJob | undefined> {
+  const job = await storage.getConversionJob(jobId);
+  if (!job || !isCancellable(job)) {
+    return job;
+  }
+
+  const index = PENDING_JOBS.findIndex(queued => queued.id === jobId);
+  if (index !== -1) {
+    PENDING_JOBS.splice(index, 1);
+    publishQueueChange();
+  }
+
+  // Mark as cancelled first so the worker doesn't report the aborted render as a failure
+  const cancelledJob = await storage.updateConversionJobStatus(jobId, "cancelled");
+  clearJobTimeout(jobId);
+  forgetJobPasswords(jobId);
+
+  await abortPdfGeneration(jobId);
+
+  console.log(`Job ${jobId} cancelled`);
+  return cancelledJob;
+}
+
+// Re-queue jobs that were still pending when the server stopped
+export async function restoreQueue(): Promise<void> {
+  try {
+    const pendingJobs = await storage.getPendingJobs();
+    if (pendingJobs.length > 0) {
+      console.log(`Restoring ${pendingJobs.length} pending jobs to the queue...`);
+    }
+    for (const job of pendingJobs) {
+      enqueueJob(job);
+    }
+  } catch (error) {
+    console.error('Error restoring job queue:', error);
+  }
+}
+
+function processQueue(): void {
+  while (RUNNING_JOBS.size < MAX_CONCURRENT_JOBS && PENDING_JOBS.length > 0) {
+    const next = PENDING_JOBS.shift()!;
+    RUNNING_JOBS.add(next.id);
+    publishQueueChange();
+    runJob(next.id).finally(() => {
+      RUNNING_JOBS.delete(next.id);
+      processQueue();
+    });
+  }
+}
+
+async function runJob(jobId: number): Promise<void> {
+  try {
+    // Status changes are compare-and-set, so a cancellation at any point is never overwritten
+    const job = await storage.transitionConversionJobStatus(jobId, ["pending"], "processing");
+    if (!job) {
+      console.log(`Skipping job ${jobId}: no longer pending`);
+      return;
+    }
+
+    const config = restorePasswords(job.id, pdfConfigSchema.parse(JSON.parse(job.config)));
+    if (!config) {
+      await storage.transitionConversionJobStatus(jobId, ["processing"], "failed", undefined, "Encryption passwords are no longer available (server restarted) - please submit the job again");
+      return;
+    }
+
+    const pdfPath = await generatePdf(job.originalHtml, config, job.id, job.filename);
+    const completedJob = await storage.transitionConversionJobStatus(job.id, ["processing"], "completed", pdfPath);
+    if (!completedJob) {
+      // Cancelled (or timed out) after its render could no longer be stopped
+      console.log(`Job ${jobId} is no longer processing, discarding ${pdfPath}`);
+      await fs.unlink(pdfPath).catch(() => undefined);
+    }
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      console.log(error.message);
+      return;
+    }
+
+    console.error(`PDF generation error for job ${jobId}:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    await storage.transitionConversionJobStatus(jobId, ["processing"], "failed", undefined, message);
+  } finally {
+    forgetJobPasswords(jobId);
+  }
+}
@@ -4,7 +4,8 @@ import { storage } from '../storage.js';
 const ACTIVE_JOBS = new Map<number, NodeJS.Timeout>();
 const MAX_JOB_DURATION = 120000; // 2 minutes maximum
 
-export function startJobTimeout(jobId: number): void {
+// abort: stops the job's render once the job has been marked as timed out
+export function startJobTimeout(jobId: number, abort: () => Promise<unknown>): void {
   // Clear any existing timeout for this job
   clearJobTimeout(jobId);
   
@@ -14,13 +15,18 @@ export function startJobTimeout(jobId: number): void {
     console.log(`Job ${jobId} timed out after ${MAX_JOB_DURATION}ms`);
     
     try {
-      await storage.updateConversionJobStatus(
-        jobId, 
-        "failed", 
+      // Compare-and-set: a cancellation or completion that landed first wins
+      const failedJob = await storage.transitionConversionJobStatus(
+        jobId,
+        ["processing"],
+        "failed",
+        undefined,
         "Job timed out - processing took too long. Please try with a smaller file or contact support."
       );
+      if (!failedJob) return;
       
-      // Clean up any resources associated with this job
+      // Free the Chrome page and the worker slot, then any resources left behind
+      await abort();
       await cleanupJobResources(jobId);
       
     } catch (error) {
@@ -79,19 +85,23 @@ export async function cleanupHangingJobs(): Promise<void> {
   try {
     console.log('Checking for hanging jobs...');
     
-    const recentJobs = await storage.getRecentJobs(10);
-    const processingJobs = recentJobs.filter(job => job.status === 'processing');
+    // Every job left processing, however old: its render died with the previous process
+    const processingJobIds = await storage.getProcessingJobIds();
     
-    if (processingJobs.length > 0) {
-      console.log(`Found ${processingJobs.length} hanging jobs, marking as failed...`);
+    if (processingJobIds.length > 0) {
+      console.log(`Found ${processingJobIds.length} hanging jobs, marking as failed...`);
       
-      for (const job of processingJobs) {
-        await storage.updateConversionJobStatus(
-          job.id,
+      for (const jobId of processingJobIds) {
+        const failedJob = await storage.transitionConversionJobStatus(
+          jobId,
+          ["processing"],
           "failed",
+          undefined,
           "Job was interrupted - please try again"
         );
-        await cleanupJobResources(job.id);
+        if (failedJob) {
+          await cleanupJobResources(jobId);
+        }
       }
     }
     
@@ -0,0 +1,95 @@
+// Page geometry derived from PdfConfig, shared by the @page CSS and the page.pdf options
+// of both the Puppeteer renderer and the html-pdf-node fallback
+import type { PDFOptions } from 'puppeteer';
+import type { EffectivePdfSettings, PageSize, PdfConfig } from '../../shared/schema.js';
+
+export type PageSettings = Omit<EffectivePdfSettings, 'renderer' | 'landscapeTables' | 'splitTables' | 'fittedTables'>;
+
+// Room kept free for a header/footer line so it never overlaps the content
+const HEADER_FOOTER_MARGIN_MM = 8;
+
+// Portrait width and height in mm
+const PAGE_DIMENSIONS: Record<Exclude<PageSize, 'Custom'>, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  Letter: { width: 215.9, height: 279.4 },
+  Legal: { width: 215.9, height: 355.6 },
+  Oficio: { width: 216, height: 340 },
+  A3: { width: 297, height: 420 },
+  A5: { width: 148, height: 210 },
+  Tabloid: { width: 279.4, height: 431.8 },
+};
+
+export function resolvePageSettings(config: PdfConfig): PageSettings {
+  return {
+    pageSize: config.pageSize,
+    ...resolvePageDimensions(config),
+    // marginTop applies to the top and bottom edges, marginSide to left and right
+    margins: {
+      top: config.headerTemplate ? Math.max(config.marginTop, HEADER_FOOTER_MARGIN_MM) : config.marginTop,
+      right: config.marginSide,
+      bottom: config.footerTemplate ? Math.max(config.marginTop, HEADER_FOOTER_MARGIN_MM) : config.marginTop,
+      left: config.marginSide,
+    },
+    scale: config.contentScale / 100,
+  };
+}
+
+// Sheet size with the orientation applied; custom sizes are used as given
+function resolvePageDimensions(config: PdfConfig): Pick<PageSettings, 'orientation' | 'width' | 'height'> {
+  if (config.pageSize === 'Custom') {
+    if (config.customPageSize) {
+      const { width, height } = config.customPageSize;
+      return { orientation: width > height ? 'landscape' : 'portrait', width, height };
+    }
+    console.warn('Custom page size without dimensions, using A4');
+  }
+
+  const { width, height } = PAGE_DIMENSIONS[config.pageSize === 'Custom' ? 'A4' : config.pageSize];
+  return config.orientation === 'landscape'
+    ? { orientation: 'landscape', width: height, height: width }
+    : { orientation: 'portrait', width, height };
+}
+
+const CSS_PX_PER_MM = 96 / 25.4;
+
+// Width of the printable area in CSS px, as the content is laid out at the print scale.
+// `turned` gives the width of the same sheet turned sideways.
+export function contentWidthPx(settings: PageSettings, turned = false): number {
+  const sheetWidth = turned ? settings.height : settings.width;
+  const { left, right } = settings.margins;
+  // Printing at a scale below 100% lays the content out that much wider
+  return Math.floor((sheetWidth - left - right) * CSS_PX_PER_MM / settings.scale);
+}
+
+export function contentHeightPx(settings: PageSettings, turned = false): number {
+  const sheetHeight = turned ? settings.width : settings.height;
+  const { top, bottom } = settings.margins;
+  return Math.floor((sheetHeight - top - bottom) * CSS_PX_PER_MM / settings.scale);
+}
+
+export function pageRuleCss(settings: PageSettings): string {
+  const { top, right, bottom, left } = settings.margins;
+  return `
+    @page {
+      size: ${settings.width}mm ${settings.height}mm;
+      margin: ${top}mm ${right}mm ${bottom}mm ${left}mm;
+    }
+  `;
+}
+
+export function pdfPageOptions(settings: PageSettings): PDFOptions {
+  const { top, right, bottom, left } = settings.margins;
+  // Explicit dimensions instead of format/landscape, so regional and custom sizes work too
+  return {
+    width: `${settings.width}mm`,
+    height: `${settings.height}mm`,
+    margin: {
+      top: `${top}mm`,
+      right: `${right}mm`,
+      bottom: `${bottom}mm`,
+      left: `${left}mm`,
+    },
+    scale: settings.scale,
+    preferCSSPageSize: false,
+  };
+}
@@ -0,0 +1,188 @@
+// Password protection with the PDF standard security handler (revision 4, AES-128).
+// pdf-lib can't write encrypted files, so every string and stream of the document is
+// encrypted in place and the Encrypt dictionary added before saving. The document must
+// then be saved without object streams, which pdf-lib would write unencrypted.
+import crypto from 'crypto';
+import {
+  PDFArray,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+  PDFStream,
+  PDFString,
+  type PDFDocument,
+  type PDFObject,
+  type PDFRef,
+} from 'pdf-lib';
+import type { PdfEncryptionConfig } from '../../shared/schema.js';
+
+const KEY_LENGTH = 16; // bytes, AES-128
+
+// Algorithm 2 padding string (ISO 32000-1, 7.6.3.3)
+const PASSWORD_PADDING = Buffer.from(
+  '28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a',
+  'hex'
+);
+
+// Permission bits (1-based in the spec) granted by each option
+const PERMISSION_BITS = {
+  print: (1 << 2) | (1 << 11), // print, high-quality print
+  modify: (1 << 3) | (1 << 5) | (1 << 8) | (1 << 10), // modify, annotate, fill forms, assemble
+  copy: 1 << 4, // copy and extract text
+};
+// Reserved bits that must be set, plus text extraction for accessibility tools
+const BASE_PERMISSIONS = 0xfffff0c0 | (1 << 9);
+
+export function encryptPdfDocument(pdfDoc: PDFDocument, encryption: PdfEncryptionConfig): void {
+  const { context } = pdfDoc;
+
+  // The first ID string is part of the key; PDF/A conversion may already have set one
+  const existingId = context.trailerInfo.ID instanceof PDFArray ? context.trailerInfo.ID.get(0) : undefined;
+  let id: PDFHexString | PDFString;
+  if (existingId instanceof PDFHexString || existingId instanceof PDFString) {
+    id = existingId;
+  } else {
+    id = PDFHexString.of(crypto.randomBytes(16).toString('hex'));
+    context.trailerInfo.ID = context.obj([id, id]);
+  }
+  const documentId = Buffer.from(id.asBytes());
+
+  const permissions = permissionFlags(encryption.permissions);
+  const userPassword = padPassword(encryption.userPassword ?? '');
+  // Without an owner password the restrictions still apply, nobody can lift them
+  const ownerPassword = padPassword(encryption.ownerPassword || crypto.randomBytes(16).toString('hex'));
+
+  const ownerEntry = computeOwnerEntry(ownerPassword, userPassword);
+  const fileKey = computeFileKey(userPassword, ownerEntry, permissions, documentId);
+  const userEntry = computeUserEntry(fileKey, documentId);
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    const objectKey = computeObjectKey(fileKey, ref);
+    if (object instanceof PDFStream) {
+      // Streams pdf-lib builds on save (content streams) are frozen into raw streams
+      const contents = object instanceof PDFRawStream ? object.contents : object.getContents();
+      encryptStrings(object.dict, objectKey);
+      context.assign(ref, PDFRawStream.of(object.dict, aesEncrypt(objectKey, contents)));
+    } else {
+      const encrypted = encryptStrings(object, objectKey);
+      if (encrypted !== object) context.assign(ref, encrypted);
+    }
+  }
+
+  // Registered last so its own strings stay in the clear
+  context.trailerInfo.Encrypt = context.register(context.obj({
+    Filter: 'Standard',
+    V: 4,
+    R: 4,
+    Length: KEY_LENGTH * 8,
+    CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV2', Length: KEY_LENGTH } },
+    StmF: 'StdCF',
+    StrF: 'StdCF',
+    O: PDFHexString.of(ownerEntry.toString('hex')),
+    U: PDFHexString.of(userEntry.toString('hex')),
+    P: permissions,
+    EncryptMetadata: true,
+  }));
+}
+
+// Replace every string inside an object (recursing into direct dictionaries and arrays)
+function encryptStrings(object: PDFObject, key: Buffer): PDFObject {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return PDFHexString.of(aesEncrypt(key, object.asBytes()).toString('hex'));
+  }
+  if (object instanceof PDFDict) {
+    for (const [name, value] of object.entries()) {
+      const encrypted = encryptStrings(value, key);
+      if (encrypted !== value) object.set(name, encrypted);
+    }
+  } else if (object instanceof PDFArray) {
+    object.asArray().forEach((value, index) => {
+      const encrypted = encryptStrings(value, key);
+      if (encrypted !== value) object.set(index, encrypted);
+    });
+  }
+  return object;
+}
+
+function permissionFlags(permissions: PdfEncryptionConfig['permissions']): number {
+  let flags = BASE_PERMISSIONS;
+  if (permissions.print) flags |= PERMISSION_BITS.print;
+  if (permissions.modify) flags |= PERMISSION_BITS.modify;
+  if (permissions.copy) flags |= PERMISSION_BITS.copy;
+  return flags | 0; // signed 32-bit, as written in the file
+}
+
+function padPassword(password: string): Buffer {
+  return Buffer.concat([Buffer.from(password, 'latin1'), PASSWORD_PADDING]).subarray(0, 32);
+}
+
+// Algorithm 3
+function computeOwnerEntry(ownerPassword: Buffer, userPassword: Buffer): Buffer {
+  let hash = md5(ownerPassword);
+  for (let i = 0; i < 50; i++) hash = md5(hash);
+  const key = hash.subarray(0, KEY_LENGTH);
+
+  let entry = rc4(key, userPassword);
+  for (let i = 1; i <= 19; i++) entry = rc4(xorKey(key, i), entry);
+  return entry;
+}
+
+// Algorithm 2
+function computeFileKey(userPassword: Buffer, ownerEntry: Buffer, permissions: number, documentId: Buffer): Buffer {
+  const permissionBytes = Buffer.alloc(4);
+  permissionBytes.writeInt32LE(permissions);
+
+  let hash = md5(Buffer.concat([userPassword, ownerEntry, permissionBytes, documentId]));
+  for (let i = 0; i < 50; i++) hash = md5(hash.subarray(0, KEY_LENGTH));
+  return hash.subarray(0, KEY_LENGTH);
+}
+
+// Algorithm 5
+function computeUserEntry(fileKey: Buffer, documentId: Buffer): Buffer {
+  let entry = rc4(fileKey, md5(Buffer.concat([PASSWORD_PADDING, documentId])));
+  for (let i = 1; i <= 19; i++) entry = rc4(xorKey(fileKey, i), entry);
+  return Buffer.concat([entry, Buffer.alloc(16)]);
+}
+
+// Algorithm 1, with the AES salt
+function computeObjectKey(fileKey: Buffer, ref: PDFRef): Buffer {
+  const suffix = Buffer.alloc(9);
+  suffix.writeUIntLE(ref.objectNumber, 0, 3);
+  suffix.writeUIntLE(ref.generationNumber, 3, 2);
+  suffix.write('sAlT', 5, 'latin1');
+  return md5(Buffer.concat([fileKey, suffix])).subarray(0, Math.min(KEY_LENGTH + 5, 16));
+}
+
+// AES-128-CBC with PKCS#7 padding, random IV prepended
+function aesEncrypt(key: Buffer, data: Uint8Array): Buffer {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-128-cbc', key, iv);
+  return Buffer.concat([iv, cipher.update(data), cipher.final()]);
+}
+
+// OpenSSL 3 no longer ships RC4 by default; it's only needed for the O and U entries
+function rc4(key: Buffer, data: Buffer): Buffer {
+  const state = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+
+  const output = Buffer.alloc(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[n] = data[n] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return output;
+}
+
+function xorKey(key: Buffer, value: number): Buffer {
+  return Buffer.from(key.map(byte => byte ^ value));
+}
+
+function md5(data: Buffer): Buffer {
+  return crypto.createHash('md5').update(data).digest();
+}
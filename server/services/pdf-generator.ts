@@ -1,36 +1,99 @@
-import puppeteer from 'puppeteer';
+import type { Page } from 'puppeteer';
 import path from 'path';
 import fs from 'fs/promises';
+import * as cheerio from 'cheerio';
 import { storage } from '../storage.js';
-import type { PdfConfig } from '../../shared/schema.js';
+import type { EffectivePdfSettings, PdfConfig } from '../../shared/schema.js';
 import { createRequire } from 'module';
 import { validateHtml, sanitizeHtml } from './html-validation.js';
 import { startJobTimeout, clearJobTimeout, completeJob } from './job-timeout-manager.js';
+import { createProgressReporter } from './job-progress.js';
+import { leasePage, type PageLease } from './browser-pool.js';
+import { resolvePageSettings, pageRuleCss, pdfPageOptions } from './page-settings.js';
+import { postProcessPdf } from './pdf-postprocess.js';
+import { assertPdfA } from './pdfa.js';
+import { signPdfFile } from './pdf-signing.js';
+import { markReportSections } from './report-sections.js';
+import { addTableOfContents } from './table-of-contents.js';
+import { landscapePageRuleCss, markWideTables, usesLandscapeTables } from './wide-tables.js';
+import { fitTablesToPage } from './table-fit.js';
+import { columnBlockCss, splitWideTables } from './table-split.js';
+import { groupCss, keepTableGroupsTogether } from './table-groups.js';
+import { markTableRows } from './table-rows.js';
+import { markTableTheme, resolveTableTheme, tableThemeCss } from './table-themes.js';
 const require = createRequire(import.meta.url);
 const htmlPdf = require('html-pdf-node');
 
 const PDF_OUTPUT_DIR = './generated-pdfs';
 
-export async function generatePdf(htmlContent: string, config: PdfConfig, jobId: number): Promise<string> {
-  let browser;
+interface ActiveRender {
+  page?: Page;
+  outputPath?: string;
+  cancelled: boolean;
+}
+
+// Renders in progress, so a cancellation request can close the job's page
+const ACTIVE_RENDERS = new Map<number, ActiveRender>();
+
+export class JobCancelledError extends Error {
+  constructor(jobId: number) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+// A failure after the PDF was rendered (signing, PDF/A validation...). The fallback
+// renderer would run into the same problem, so these fail the job directly.
+class PostProcessingError extends Error {
+  constructor(cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'PostProcessingError';
+  }
+}
+
+export async function generatePdf(htmlContent: string, config: PdfConfig, jobId: number, sourceFilename: string): Promise<string> {
+  let lease: PageLease | undefined;
+  const render: ActiveRender = { cancelled: false };
+  ACTIVE_RENDERS.set(jobId, render);
+  const progress = createProgressReporter(jobId);
+  const pageSettings = resolvePageSettings(config);
+  
+  // Watermark, header/footer, document metadata, PDF/A, encryption and signature,
+  // applied to the output of either renderer
+  const postProcess = async (outputPath: string, renderer: EffectivePdfSettings['renderer']) => {
+    try {
+      await progress.stage('post_processing');
+      await postProcessPdf(outputPath, { config, settings: pageSettings, renderer, filename: sourceFilename, html: htmlContent });
+      if (config.signature) {
+        await progress.stage('signing');
+        const signature = await signPdfFile(outputPath, config.signature, pageSettings, config.outputProfile);
+        await storage.updateConversionJobSignature(jobId, signature);
+      }
+      if (config.outputProfile === 'pdfa-2b') {
+        await progress.stage('pdfa_validation');
+        await assertPdfA(outputPath);
+      }
+    } catch (error) {
+      throw new PostProcessingError(error);
+    }
+  };
   
   try {
     // Ensure output directory exists
     await fs.mkdir(PDF_OUTPUT_DIR, { recursive: true });
     
     // Start job timeout monitoring
-    startJobTimeout(jobId);
-    
-    // Update job status to processing
-    await storage.updateConversionJobStatus(jobId, "processing");
+    startJobTimeout(jobId, () => abortPdfGeneration(jobId));
     
     console.log('Environment:', process.env.NODE_ENV);
     console.log('HTML content size:', htmlContent.length, 'characters');
     
     // Validate HTML before processing
+    await progress.stage('validation');
     const validation = validateHtml(htmlContent);
     if (!validation.isValid) {
       console.log('HTML validation warnings:', validation.errors);
+      await progress.stage('sanitizing');
       // Continue but sanitize the content
       htmlContent = sanitizeHtml(htmlContent);
     }
@@ -45,6 +108,9 @@ export async function generatePdf(htmlContent: string, config: PdfConfig, jobId:
     let optimizedHtml = htmlContent;
     if (contentSizeKB > 500) { // If file is larger than 500KB
       console.log('Optimizing large HTML content...');
+      if (validation.isValid) {
+        await progress.stage('sanitizing');
+      }
       // Remove unnecessary CSS and JavaScript that might slow down processing
       optimizedHtml = htmlContent
         .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '') // Remove scripts
@@ -56,6 +122,7 @@ export async function generatePdf(htmlContent: string, config: PdfConfig, jobId:
     }
 
     // Inject custom styles for Cohen reports
+    optimizedHtml = markReportTables(optimizedHtml);
     const styledHtml = `
     <!DOCTYPE html>
     <html>
@@ -71,224 +138,129 @@ export async function generatePdf(htmlContent: string, config: PdfConfig, jobId:
     </html>
     `;
     
-    console.log('Launching Puppeteer browser...');
-    
-    const launchOptions = {
-      headless: true,
-      timeout: dynamicTimeout,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-        '--single-process',
-        '--disable-gpu',
-        '--disable-background-timer-throttling',
-        '--disable-backgrounding-occluded-windows',
-        '--disable-renderer-backgrounding',
-        '--disable-features=TranslateUI',
-        '--disable-ipc-flooding-protection',
-        '--disable-plugins',
-        '--disable-web-security',
-        '--disable-features=VizDisplayCompositor',
-        '--disable-extensions',
-        '--disable-default-apps',
-        '--window-size=1920,1080'
-      ]
-    };
-    
-    // Try multiple Chrome executable paths
-    const possiblePaths = [
-      process.env.PUPPETEER_EXECUTABLE_PATH,
-      '/home/runner/workspace/.cache/puppeteer/chrome/linux-138.0.7204.157/chrome-linux64/chrome',
-      '/home/runner/.cache/puppeteer/chrome/linux-138.0.7204.157/chrome-linux64/chrome',
-      '/nix/store/zi4f80l169xlmivz8vja8wlphq74qqk0-chromium-125.0.6422.141/bin/chromium'
-    ].filter(Boolean);
-    
-    let executablePath;
-    const fs2 = await import('fs/promises');
-    
-    // Try to find Chrome executable
-    for (const path of possiblePaths) {
-      try {
-        await fs2.access(path);
-        executablePath = path;
-        console.log(`Found Chrome at: ${path}`);
-        break;
-      } catch (error) {
-        console.log(`Chrome not found at: ${path}`);
-      }
-    }
+    // Lease a page from the shared browser pool instead of launching Chrome per job
+    await progress.stage('browser_launch');
+    lease = await leasePage();
+    render.page = lease.page;
+    throwIfCancelled(jobId, render);
     
-    // Try with Nix store glob pattern
-    if (!executablePath) {
-      try {
-        const { execSync } = await import('child_process');
-        const nixChrome = execSync('find /nix/store -name chromium -path "*/bin/chromium" 2>/dev/null | head -1', { encoding: 'utf8' }).trim();
-        if (nixChrome) {
-          await fs2.access(nixChrome);
-          executablePath = nixChrome;
-          console.log(`Found Chrome via find: ${executablePath}`);
-        }
-      } catch (error) {
-        console.log('Nix store search failed:', error.message);
-      }
-    }
-    
-    // Try to use system Chrome/Chromium
-    if (!executablePath) {
-      try {
-        const { execSync } = await import('child_process');
-        const systemChrome = execSync('which chromium || which google-chrome || which chrome 2>/dev/null', { encoding: 'utf8' }).trim();
-        if (systemChrome) {
-          executablePath = systemChrome;
-          console.log(`Found system Chrome: ${executablePath}`);
-        }
-      } catch (error) {
-        console.log('System Chrome search failed:', error.message);
-      }
-    }
-    
-    if (executablePath) {
-      launchOptions.executablePath = executablePath;
-      console.log(`Using Chrome executable: ${executablePath}`);
-    } else {
-      console.log('No Chrome executable found, using default Puppeteer');
-    }
-    
-    try {
-      browser = await puppeteer.launch(launchOptions);
-    } catch (error) {
-      console.error('Failed to launch browser with custom path:', error.message);
-      console.error('Attempting fallback approaches...');
-      
-      // Multiple fallback attempts
-      const fallbackAttempts = [
-        () => {
-          console.log('Trying without executable path...');
-          const opts = { ...launchOptions };
-          delete opts.executablePath;
-          return puppeteer.launch(opts);
-        },
-        () => {
-          console.log('Trying with minimal args...');
-          return puppeteer.launch({
-            headless: true,
-            args: ['--no-sandbox', '--disable-setuid-sandbox']
-          });
-        },
-        () => {
-          console.log('Trying with bundled Chromium...');
-          return puppeteer.launch({
-            headless: true,
-            args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
-          });
-        }
-      ];
-      
-      for (const attempt of fallbackAttempts) {
-        try {
-          browser = await attempt();
-          console.log('Fallback browser launch successful');
-          break;
-        } catch (fallbackError) {
-          console.error('Fallback attempt failed:', fallbackError.message);
-        }
-      }
-      
-      if (!browser) {
-        throw new Error('All browser launch attempts failed');
-      }
-    }
-    console.log('Browser launched successfully');
-    
-    const page = await browser.newPage();
+    const page = lease.page;
     
     // Set page timeout based on content size
     page.setDefaultTimeout(dynamicTimeout);
     
     console.log('Setting page content for large file...');
+    await progress.stage('set_content');
     // Set content with dynamic timeout for large files
     await page.setContent(styledHtml, {
       waitUntil: 'domcontentloaded',
       timeout: dynamicTimeout
     });
     
+    // Mark report sections as headings so they show up in the PDF outline
+    const sections = await markReportSections(page);
+    console.log(`Marked ${sections.length} report sections for the PDF outline`);
+    
     console.log('Optimizing tables for large content...');
-    // Add table classes for dynamic font sizing - limit processing for large files
-    await page.evaluate(() => {
-      const tables = document.querySelectorAll('table');
-      const maxTables = tables.length > 100 ? 30 : 50; // Limit processing for very large files
-      for (let i = 0; i < Math.min(tables.length, maxTables); i++) {
-        const table = tables[i];
-        const headerRow = table.querySelector('tr');
-        if (headerRow) {
-          const columnCount = headerRow.children.length;
-          if (columnCount < 6) {
-            table.classList.add('small-table');
-          } else if (columnCount <= 10) {
-            table.classList.add('medium-table');
-          } else {
-            table.classList.add('large-table');
-          }
-        }
-      }
+    await progress.stage('table_optimization');
+    
+    let landscapeTables = 0;
+    if (usesLandscapeTables(pageSettings, config.landscapeWideTables)) {
+      landscapeTables = await markWideTables(page, pageSettings);
+      console.log(`Moved ${landscapeTables} wide tables to landscape pages`);
+    }
+    
+    let splitTables = 0;
+    if (config.splitWideTables) {
+      splitTables = await splitWideTables(page, pageSettings);
+      console.log(`Split ${splitTables} wide tables into column blocks`);
+    }
+    
+    // Shrink whatever still overflows its page, measured table by table
+    const fittedTables = await fitTablesToPage(page, pageSettings, config.minFontSize);
+    fittedTables.forEach((table) => {
+      const result = table.fits ? 'fits' : `still overflows at the ${config.minFontSize}px minimum`;
+      console.log(`Table ${table.index} (${table.label}) shrunk to ${table.fontSize}px, ${result}`);
     });
     
-    // PDF generation options
+    // Last, as it measures the rows at their final size
+    if (config.keepGroupsTogether) {
+      const groups = await keepTableGroupsTogether(page, pageSettings);
+      console.log(`Keeping ${groups} table groups together`);
+    }
+    
+    // PDF generation options, driven by the job config
     const pdfOptions = {
-      format: config.pageSize as any,
-      landscape: config.orientation === 'landscape',
-      margin: {
-        top: '5mm',
-        right: '5mm', 
-        bottom: '5mm',
-        left: '5mm',
-      },
+      ...pdfPageOptions(pageSettings),
       printBackground: true,
-      displayHeaderFooter: false,
-      preferCSSPageSize: false,
-      scale: 0.9
+      displayHeaderFooter: false, // stamped afterwards by header-footer.ts so the fallback matches
+      tagged: true,
+      outline: true, // bookmarks from h1-h6 and the sections marked above
+      preferCSSPageSize: landscapeTables > 0, // named landscape pages only apply with CSS page sizes
     };
     
     // Generate filename
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const filename = `cohen-report-${jobId}-${timestamp}.pdf`;
     const outputPath = path.join(PDF_OUTPUT_DIR, filename);
+    render.outputPath = outputPath;
     
     // Generate PDF
-    await page.pdf({
-      ...pdfOptions,
-      path: outputPath,
-    });
+    await progress.stage('pdf_write');
+    if (config.tableOfContents) {
+      // Two-pass render: the first PDF tells where each section lands
+      const firstPass = await page.pdf(pdfOptions);
+      throwIfCancelled(jobId, render);
+      await progress.stage('table_of_contents');
+      await fs.writeFile(outputPath, await addTableOfContents(page, sections, pdfOptions, firstPass));
+    } else {
+      await page.pdf({
+        ...pdfOptions,
+        path: outputPath,
+      });
+    }
+    
+    throwIfCancelled(jobId, render);
+    await postProcess(outputPath, 'puppeteer');
     
     // Clear timeout and mark job as completed
     completeJob(jobId);
-    
-    // Update job status to completed
-    await storage.updateConversionJobStatus(jobId, "completed", null, outputPath);
+    await progress.complete();
+    await storage.updateConversionJobSettings(jobId, { renderer: 'puppeteer', ...pageSettings, landscapeTables, splitTables, fittedTables });
     
     return outputPath;
     
   } catch (error) {
+    if (render.cancelled) {
+      // Closing the page makes Puppeteer throw; don't fall back for a cancelled job
+      console.log(`PDF generation for job ${jobId} stopped: job cancelled`);
+      await removePartialOutput(render);
+      throw new JobCancelledError(jobId);
+    }
+    
+    if (error instanceof PostProcessingError) {
+      console.error(`Post-processing failed for job ${jobId}:`, error.message);
+      clearJobTimeout(jobId);
+      await removePartialOutput(render);
+      throw error;
+    }
+    
     console.error('Puppeteer PDF generation failed:', error);
     console.error('Attempting fallback method...');
     
     try {
       // Try fallback method with html-pdf-node
       console.log('Using html-pdf-node fallback...');
+      await progress.stage('fallback');
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
       const filename = `cohen-report-${jobId}-${timestamp}.pdf`;
       const fallbackOutputPath = path.join(PDF_OUTPUT_DIR, filename);
+      render.outputPath = fallbackOutputPath;
       
+      // html-pdf-node passes these straight to page.pdf, so use the same options as above
       const options = {
-        format: config.pageSize,
-        orientation: config.orientation,
-        margin: { top: '5mm', right: '5mm', bottom: '5mm', left: '5mm' },
+        ...pdfPageOptions(pageSettings),
         printBackground: true,
-        preferCSSPageSize: false
       };
 
       // Enhanced HTML with Cohen styling for fallback
@@ -298,17 +270,17 @@ export async function generatePdf(htmlContent: string, config: PdfConfig, jobId:
         <head>
           <meta charset="UTF-8">
           <style>
-            @page { size: A4 landscape; margin: 5mm; }
+            ${pageRuleCss(pageSettings)}
             body { font-family: Arial, sans-serif !important; margin: 0 !important; padding: 0 !important; width: 100% !important; }
             table { width: 100% !important; border-collapse: collapse !important; margin: 2px 0 !important; font-size: 10px !important; }
-            table th, table td { padding: 2px 4px !important; border: 1px solid #ccc !important; vertical-align: top !important; }
-            table thead { display: table-header-group !important; background-color: #f5f5f5 !important; }
+            ${tableThemeCss(resolveTableTheme(config), config.alternateRowColors)}
+            table thead { display: table-header-group !important; }
             .blue-text, .title-blue { color: #0066cc !important; }
             .container { max-width: 100% !important; overflow: hidden !important; }
           </style>
         </head>
         <body>
-          ${htmlContent}
+          ${markReportTables(htmlContent)}
         </body>
         </html>
       `;
@@ -317,47 +289,96 @@ export async function generatePdf(htmlContent: string, config: PdfConfig, jobId:
       const pdfBuffer = await htmlPdf.generatePdf(file, options);
       await fs.writeFile(fallbackOutputPath, pdfBuffer);
       
+      if (render.cancelled) {
+        await removePartialOutput(render);
+        throw new JobCancelledError(jobId);
+      }
+      await postProcess(fallbackOutputPath, 'html-pdf-node');
+      
       // Clear timeout and mark job as completed
       completeJob(jobId);
-      
-      // Update job status to completed
-      await storage.updateConversionJobStatus(jobId, "completed", null, fallbackOutputPath);
+      await progress.complete();
+      await storage.updateConversionJobSettings(jobId, { renderer: 'html-pdf-node', ...pageSettings });
       
       console.log('PDF generated successfully with html-pdf-node fallback');
       return fallbackOutputPath;
       
     } catch (fallbackError) {
-      console.error('Fallback PDF generation also failed:', fallbackError);
-      
-      try {
+      if (fallbackError instanceof JobCancelledError) {
+        throw fallbackError;
+      }
+      if (fallbackError instanceof PostProcessingError) {
         clearJobTimeout(jobId);
-        await storage.updateConversionJobStatus(jobId, "failed", "PDF generation failed - both primary and fallback methods unsuccessful");
-      } catch (statusError) {
-        console.error('Failed to update job status:', statusError);
+        await removePartialOutput(render);
+        throw fallbackError;
       }
       
+      console.error('Fallback PDF generation also failed:', fallbackError);
+      clearJobTimeout(jobId);
+      
       const errorMessage = `PDF generation temporarily unavailable. Both primary and fallback methods failed.\n\nSystem error: ${error.message}\n\nFallback error: ${fallbackError.message}`;
       throw new Error(errorMessage);
     }
   } finally {
+    ACTIVE_RENDERS.delete(jobId);
+    
+    // Return the page to the pool; the browser stays warm for the next job
+    if (lease) {
+      await lease.release();
+    }
+  }
+}
+
+// Stop a running render: closing its page aborts any pending Puppeteer call
+export async function abortPdfGeneration(jobId: number): Promise<boolean> {
+  const render = ACTIVE_RENDERS.get(jobId);
+  if (!render) return false;
+  
+  render.cancelled = true;
+  if (render.page && !render.page.isClosed()) {
     try {
-      if (browser) {
-        console.log('Closing browser...');
-        await browser.close();
-        console.log('Browser closed successfully');
-      }
-    } catch (closeError) {
-      console.error('Error closing browser:', closeError);
+      console.log(`Closing page for cancelled job ${jobId}...`);
+      await render.page.close();
+    } catch (error) {
+      console.error(`Error closing page for job ${jobId}:`, error);
     }
   }
+  return true;
+}
+
+// Remove the (possibly partial) PDF a cancelled render was writing
+async function removePartialOutput(render: ActiveRender): Promise<void> {
+  if (!render.outputPath) return;
+  
+  try {
+    await fs.unlink(render.outputPath);
+    console.log(`Removed partial output file: ${render.outputPath}`);
+  } catch (error) {
+    console.log('No partial output file to remove:', render.outputPath);
+  }
+}
+
+// Row roles and table theme classes, written into the HTML so both renderers get them
+function markReportTables(html: string): string {
+  const $ = cheerio.load(html);
+  markTableRows($);
+  markTableTheme($);
+  return $.html();
+}
+
+function throwIfCancelled(jobId: number, render: ActiveRender): void {
+  if (render.cancelled) {
+    throw new JobCancelledError(jobId);
+  }
 }
 
 function generateCustomCSS(config: PdfConfig): string {
+  const settings = resolvePageSettings(config);
   return `
-    @page {
-      size: A4 landscape;
-      margin: 5mm;
-    }
+    ${pageRuleCss(settings)}
+    ${usesLandscapeTables(settings, config.landscapeWideTables) ? landscapePageRuleCss(settings) : ''}
+    ${config.splitWideTables ? columnBlockCss() : ''}
+    ${config.keepGroupsTogether ? groupCss() : ''}
     
     * {
       box-sizing: border-box !important;
@@ -376,31 +397,16 @@ function generateCustomCSS(config: PdfConfig): string {
       padding: 0 !important;
     }
     
-    /* Dynamic font sizing based on column count */
-    table.small-table {
-      font-size: 12px !important;
-    }
-    
-    table.medium-table {
-      font-size: 10px !important;
-    }
-    
-    table.large-table {
-      font-size: 8px !important;
-    }
-    
+    /* Base size; tables that overflow are shrunk by table-fit.ts */
     table {
+      font-size: 12px !important;
       width: 100% !important;
       border-collapse: collapse !important;
       margin: 2px 0 !important;
       page-break-inside: auto !important;
     }
     
-    table th, table td {
-      padding: 2px 4px !important;
-      border: 1px solid #ccc !important;
-      vertical-align: top !important;
-    }
+    ${tableThemeCss(resolveTableTheme(config), config.alternateRowColors)}
     
     table thead {
       display: table-header-group !important;
@@ -0,0 +1,68 @@
+// Document properties (Info dictionary) of the generated PDF, derived from the report
+// and overridable through PdfConfig.metadata
+import type { PDFDocument } from 'pdf-lib';
+import type { AnalysisResult, EffectivePdfSettings, PdfMetadataConfig } from '../../shared/schema.js';
+import type { ReportDetails } from './html-parser.js';
+
+const CREATOR = 'Cohen PDF Converter';
+
+export interface DocumentMetadata {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string[];
+  creator: string;
+  producer: string;
+  creationDate: Date;
+}
+
+export interface MetadataSource {
+  filename: string;
+  analysis: AnalysisResult | null; // null when the report couldn't be analyzed
+  details: ReportDetails;
+  renderer: EffectivePdfSettings['renderer'];
+  overrides?: PdfMetadataConfig;
+}
+
+export function buildDocumentMetadata(source: MetadataSource): DocumentMetadata {
+  const { filename, analysis, details, renderer, overrides = {} } = source;
+  const isCohenReport = analysis?.isValidCohenFormat ?? false;
+
+  const titleParts = [
+    details.period ? `Resumen de ${details.period}` : null,
+    details.account ? `Cuenta ${details.account}` : null,
+  ].filter(Boolean);
+  const title = titleParts.length > 0 ? titleParts.join(' - ') : filename.replace(/\.html?$/i, '');
+
+  const subject = analysis
+    ? `Reporte de inversiones (${analysis.tableCount} tablas, ${analysis.assetCount} activos)`
+    : 'Reporte de inversiones';
+
+  const keywords = [
+    isCohenReport ? 'Cohen' : null,
+    'reporte',
+    details.account ? `cuenta ${details.account}` : null,
+    details.period,
+  ].filter((keyword): keyword is string => Boolean(keyword));
+
+  return {
+    title: overrides.title ?? title,
+    author: overrides.author ?? (isCohenReport ? 'Cohen S.A.' : CREATOR),
+    subject: overrides.subject ?? subject,
+    keywords: overrides.keywords ?? keywords,
+    creator: overrides.creator ?? CREATOR,
+    producer: overrides.producer ?? `${CREATOR} (${renderer}, pdf-lib)`,
+    creationDate: new Date(),
+  };
+}
+
+export function applyDocumentMetadata(pdfDoc: PDFDocument, metadata: DocumentMetadata): void {
+  pdfDoc.setTitle(metadata.title, { showInWindowTitleBar: true });
+  pdfDoc.setAuthor(metadata.author);
+  pdfDoc.setSubject(metadata.subject);
+  pdfDoc.setKeywords(metadata.keywords);
+  pdfDoc.setCreator(metadata.creator);
+  pdfDoc.setProducer(metadata.producer);
+  pdfDoc.setCreationDate(metadata.creationDate);
+  pdfDoc.setModificationDate(metadata.creationDate);
+}
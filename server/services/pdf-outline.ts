@@ -0,0 +1,99 @@
+// Reads the outline (bookmarks) of a rendered PDF with pdf-lib, resolving each entry to
+// the page it points to
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRef,
+  PDFString,
+  type PDFObject,
+} from 'pdf-lib';
+
+export interface OutlineEntry {
+  title: string;
+  level: number; // 1 = top-level
+  pageIndex: number | null; // 0-based, null when the destination can't be resolved
+}
+
+const MAX_OUTLINE_ENTRIES = 5000; // guards against cyclic /Next chains in broken files
+
+export async function readPdfOutline(pdfBytes: Uint8Array): Promise<OutlineEntry[]> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const pageIndexByRef = new Map(pdfDoc.getPages().map((page, index) => [page.ref.toString(), index]));
+  const entries: OutlineEntry[] = [];
+
+  const resolvePage = (destination: PDFObject | undefined): number | null => {
+    if (destination instanceof PDFName || destination instanceof PDFString || destination instanceof PDFHexString) {
+      destination = lookupNamedDestination(pdfDoc, destination);
+    }
+    if (destination instanceof PDFDict) {
+      destination = destination.lookup(PDFName.of('D'));
+    }
+    if (destination instanceof PDFArray) {
+      const pageRef = destination.get(0);
+      if (pageRef instanceof PDFRef) {
+        return pageIndexByRef.get(pageRef.toString()) ?? null;
+      }
+    }
+    return null;
+  };
+
+  const walk = (item: PDFDict | undefined, level: number) => {
+    while (item && entries.length < MAX_OUTLINE_ENTRIES) {
+      const title = item.lookup(PDFName.of('Title'));
+      let destination = item.lookup(PDFName.of('Dest'));
+      if (!destination) {
+        // GoTo action instead of a direct destination
+        destination = item.lookupMaybe(PDFName.of('A'), PDFDict)?.lookup(PDFName.of('D'));
+      }
+
+      entries.push({
+        title: title instanceof PDFString || title instanceof PDFHexString ? title.decodeText().trim() : '',
+        level,
+        pageIndex: resolvePage(destination),
+      });
+
+      walk(item.lookupMaybe(PDFName.of('First'), PDFDict), level + 1);
+      item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+    }
+  };
+
+  const outlines = pdfDoc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+  walk(outlines?.lookupMaybe(PDFName.of('First'), PDFDict), 1);
+
+  return entries;
+}
+
+// Named destinations live either in the catalog's /Dests dictionary or in the /Names tree
+function lookupNamedDestination(pdfDoc: PDFDocument, name: PDFName | PDFString | PDFHexString): PDFObject | undefined {
+  if (name instanceof PDFName) {
+    return pdfDoc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict)?.lookup(name);
+  }
+
+  const key = name.decodeText();
+  const searchTree = (node: PDFDict | undefined): PDFObject | undefined => {
+    if (!node) return undefined;
+
+    const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+    if (names) {
+      for (let i = 0; i + 1 < names.size(); i += 2) {
+        const candidate = names.lookup(i);
+        if ((candidate instanceof PDFString || candidate instanceof PDFHexString) && candidate.decodeText() === key) {
+          return names.lookup(i + 1);
+        }
+      }
+    }
+
+    const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+    for (let i = 0; kids && i < kids.size(); i++) {
+      const found = searchTree(kids.lookupMaybe(i, PDFDict));
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  const namesDict = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  return searchTree(namesDict?.lookupMaybe(PDFName.of('Dests'), PDFDict));
+}
@@ -0,0 +1,72 @@
+// Post-processing of the rendered PDF with pdf-lib. Runs after either renderer, so every
+// step here behaves the same for Puppeteer and html-pdf-node output.
+import fs from 'fs/promises';
+import { PDFDocument } from 'pdf-lib';
+import type { AnalysisResult, EffectivePdfSettings, PdfConfig } from '../../shared/schema.js';
+import type { PageSettings } from './page-settings.js';
+import { analyzeHtml, extractReportDetails } from './html-parser.js';
+import { stampHeaderFooter } from './header-footer.js';
+import { stampWatermark } from './watermark.js';
+import { applyDocumentMetadata, buildDocumentMetadata } from './pdf-metadata.js';
+import { convertToPdfA } from './pdfa.js';
+import { encryptPdfDocument } from './pdf-encryption.js';
+
+export interface PostProcessContext {
+  config: PdfConfig;
+  settings: PageSettings;
+  renderer: EffectivePdfSettings['renderer'];
+  filename: string; // uploaded file name
+  html: string; // report HTML, for header/footer values and document properties
+}
+
+export async function postProcessPdf(pdfPath: string, context: PostProcessContext): Promise<void> {
+  const { config, settings } = context;
+
+  // Keep pdf-lib from stamping its own Producer/dates; the metadata step sets them
+  const pdfDoc = await PDFDocument.load(await fs.readFile(pdfPath), { updateMetadata: false });
+  const details = extractReportDetails(context.html);
+
+  if (config.watermark) {
+    await stampWatermark(pdfDoc, config.watermark, config.outputProfile);
+  }
+
+  await stampHeaderFooter(pdfDoc, config, settings, {
+    filename: context.filename,
+    date: new Date().toLocaleDateString('es-AR'),
+    account: details.account,
+    period: details.period,
+  });
+
+  const metadata = buildDocumentMetadata({
+    filename: context.filename,
+    analysis: analyzeReport(context.html),
+    details,
+    renderer: context.renderer,
+    overrides: config.metadata,
+  });
+  applyDocumentMetadata(pdfDoc, metadata);
+
+  // Last, so the XMP packet mirrors the final document properties
+  if (config.outputProfile === 'pdfa-2b') {
+    convertToPdfA(pdfDoc, metadata);
+  }
+
+  if (config.encryption) {
+    // Write out lazily embedded fonts and images first so they get encrypted too
+    await pdfDoc.flush();
+    encryptPdfDocument(pdfDoc, config.encryption);
+    await fs.writeFile(pdfPath, await pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false }));
+    return;
+  }
+
+  await fs.writeFile(pdfPath, await pdfDoc.save());
+}
+
+function analyzeReport(html: string): AnalysisResult | null {
+  try {
+    return analyzeHtml(html);
+  } catch (error) {
+    console.error('Could not analyze report for PDF metadata:', error);
+    return null;
+  }
+}
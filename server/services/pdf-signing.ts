@@ -0,0 +1,188 @@
+// Digital signature of the finished PDF with the server's PKCS#12 certificate. The
+// signature is a detached CAdES (PAdES-style) signature with reason and location, either
+// invisible (signature panel only) or with a signature box on the first or last page.
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import forge from 'node-forge';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  beginText,
+  endText,
+  moveText,
+  rectangle,
+  setFontAndSize,
+  setLineWidth,
+  setStrokingRgbColor,
+  setFillingRgbColor,
+  showText,
+  stroke,
+  type PDFFont,
+} from 'pdf-lib';
+import { SignPdf } from '@signpdf/signpdf';
+import { P12Signer } from '@signpdf/signer-p12';
+import { pdflibAddPlaceholder } from '@signpdf/placeholder-pdf-lib';
+import type { JobSignature, OutputProfile, PdfSignatureConfig, SigningStatus } from '../../shared/schema.js';
+import type { PageSettings } from './page-settings.js';
+import { embedStampFont } from './stamp-fonts.js';
+import { toFontCharset } from './header-footer.js';
+
+const SUBFILTER_CADES_DETACHED = 'ETSI.CAdES.detached';
+const MM_TO_PT = 72 / 25.4;
+
+// Visible signature box
+const BOX_WIDTH = 220;
+const BOX_HEIGHT = 56;
+const BOX_PADDING = 5;
+const FONT_SIZE = 7;
+const LINE_HEIGHT = 9;
+
+interface SigningCertificate {
+  p12: Buffer;
+  passphrase: string;
+  signer: string; // subject of the certificate matching the private key
+}
+
+export async function getSigningStatus(): Promise<SigningStatus> {
+  if (!process.env.SIGNING_P12_PATH) {
+    return { configured: false, signer: null };
+  }
+  try {
+    const certificate = await loadSigningCertificate();
+    return { configured: true, signer: certificate.signer };
+  } catch (error) {
+    return { configured: false, signer: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function signPdfFile(
+  pdfPath: string,
+  signature: PdfSignatureConfig,
+  settings: PageSettings,
+  profile: OutputProfile
+): Promise<JobSignature> {
+  const certificate = await loadSigningCertificate();
+  const signingTime = new Date();
+
+  const pdfDoc = await PDFDocument.load(await fs.readFile(pdfPath), { updateMetadata: false });
+  const pages = pdfDoc.getPages();
+  const page = signature.page === 'first' ? pages[0] : pages[pages.length - 1];
+
+  // Bottom-right corner of the printable area
+  const x = page.getWidth() - settings.margins.right * MM_TO_PT - BOX_WIDTH;
+  const y = settings.margins.bottom * MM_TO_PT + 4;
+  const widgetRect = signature.visible ? [x, y, x + BOX_WIDTH, y + BOX_HEIGHT] : [0, 0, 0, 0];
+
+  pdflibAddPlaceholder({
+    pdfPage: page,
+    reason: signature.reason,
+    location: signature.location,
+    contactInfo: '',
+    name: certificate.signer,
+    signingTime,
+    subFilter: SUBFILTER_CADES_DETACHED,
+    widgetRect,
+    appName: 'Cohen PDF Converter',
+  });
+
+  if (signature.visible) {
+    const font = await embedStampFont(pdfDoc, 'regular', profile);
+    drawSignatureAppearance(pdfDoc, page.node.lookup(PDFName.of('Annots'), PDFArray), font, [
+      'Firmado digitalmente por',
+      certificate.signer,
+      `Fecha: ${signingTime.toLocaleString('es-AR')}`,
+      `Motivo: ${signature.reason}`,
+      `Lugar: ${signature.location}`,
+    ]);
+  }
+
+  // The placeholder is filled in place, so the file must not use object streams
+  const prepared = Buffer.from(await pdfDoc.save({ useObjectStreams: false }));
+  const signer = new P12Signer(certificate.p12, { passphrase: certificate.passphrase });
+  const signed = await new SignPdf().sign(prepared, signer, signingTime);
+  await fs.writeFile(pdfPath, signed);
+
+  console.log(`PDF signed by ${certificate.signer}`);
+  return {
+    signedBy: certificate.signer,
+    signatureHash: crypto.createHash('sha256').update(signed).digest('hex'),
+  };
+}
+
+// Replace the placeholder's empty appearance (the widget it just appended) with a framed box
+function drawSignatureAppearance(pdfDoc: PDFDocument, annotations: PDFArray, font: PDFFont, lines: string[]): void {
+  const widget = pdfDoc.context.lookup(annotations.get(annotations.size() - 1), PDFDict);
+  const maxWidth = BOX_WIDTH - BOX_PADDING * 2;
+
+  const operators = [
+    setStrokingRgbColor(0.48, 0.12, 0.17),
+    setLineWidth(0.75),
+    rectangle(0.5, 0.5, BOX_WIDTH - 1, BOX_HEIGHT - 1),
+    stroke(),
+    beginText(),
+    setFillingRgbColor(0.2, 0.2, 0.2),
+    setFontAndSize('F1', FONT_SIZE),
+    moveText(BOX_PADDING, BOX_HEIGHT - BOX_PADDING - FONT_SIZE),
+  ];
+  lines.forEach((line, index) => {
+    if (index > 0) operators.push(moveText(0, -LINE_HEIGHT));
+    operators.push(showText(font.encodeText(fitToWidth(font, toFontCharset(font, line), maxWidth))));
+  });
+  operators.push(endText());
+
+  const appearance = pdfDoc.context.formXObject(operators, {
+    BBox: [0, 0, BOX_WIDTH, BOX_HEIGHT],
+    Resources: { Font: { F1: font.ref } },
+  });
+  widget.set(PDFName.of('AP'), pdfDoc.context.obj({ N: pdfDoc.context.register(appearance) }));
+}
+
+function fitToWidth(font: PDFFont, text: string, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, FONT_SIZE) <= maxWidth) return text;
+
+  let fitted = text;
+  while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}...`, FONT_SIZE) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+}
+
+// Read on every use, so a renewed certificate is picked up without a restart
+async function loadSigningCertificate(): Promise<SigningCertificate> {
+  const p12Path = process.env.SIGNING_P12_PATH;
+  if (!p12Path) {
+    throw new Error('Signing is not configured: set SIGNING_P12_PATH');
+  }
+
+  const p12 = await fs.readFile(p12Path);
+  const passphrase = process.env.SIGNING_P12_PASSPHRASE ?? '';
+  return { p12, passphrase, signer: readCertificateSubject(p12, passphrase) };
+}
+
+function readCertificateSubject(p12Bytes: Buffer, passphrase: string): string {
+  let p12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(p12Bytes.toString('binary')), false, passphrase);
+  } catch (error) {
+    throw new Error(`Cannot open the signing certificate (wrong SIGNING_P12_PASSPHRASE?): ${error instanceof Error ? error.message : error}`);
+  }
+
+  const keyBags = p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] ?? [];
+  const certBags = p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] ?? [];
+  const key = keyBags[0]?.key as forge.pki.rsa.PrivateKey | undefined;
+  if (!key) {
+    throw new Error('The signing certificate file has no private key');
+  }
+
+  const certificate = certBags
+    .map(bag => bag.cert)
+    .find(cert => cert && (cert.publicKey as forge.pki.rsa.PublicKey).n.equals(key.n));
+  if (!certificate) {
+    throw new Error('The signing certificate file has no certificate for its private key');
+  }
+
+  const field = (name: string) => certificate.subject.getField(name)?.value as string | undefined;
+  return [field('CN'), field('O')].filter(Boolean).join(', ') || certificate.serialNumber;
+}
@@ -0,0 +1,259 @@
+// PDF/A-2b conversion of the rendered PDF and an offline check of the result. Chrome's
+// output is close: fonts are embedded and transparency groups use DeviceRGB, so the
+// conversion adds the sRGB output intent, XMP metadata and file ID, and strips what the
+// standard forbids.
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHeader,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFStream,
+  PDFString,
+  type PDFObject,
+} from 'pdf-lib';
+import type { DocumentMetadata } from './pdf-metadata.js';
+import { getSrgbProfile, SRGB_PROFILE_NAME } from './srgb-profile.js';
+
+// Actions PDF/A-2 does not allow
+const FORBIDDEN_ACTIONS = new Set([
+  'Launch', 'Sound', 'Movie', 'ResetForm', 'ImportData', 'Hide',
+  'SetOCGState', 'Rendition', 'Trans', 'GoTo3DView', 'JavaScript',
+]);
+
+const STANDARD_BLEND_MODES = new Set([
+  'Normal', 'Compatible', 'Multiply', 'Screen', 'Overlay', 'Darken', 'Lighten', 'ColorDodge',
+  'ColorBurn', 'HardLight', 'SoftLight', 'Difference', 'Exclusion', 'Hue', 'Saturation',
+  'Color', 'Luminosity',
+]);
+
+const ANNOTATION_PRINT_FLAG = 4;
+const ANNOTATION_HIDING_FLAGS = 1 | 2 | 32; // Invisible, Hidden, NoView
+
+export class PdfAValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`PDF/A-2b validation failed: ${problems.join('; ')}`);
+    this.name = 'PdfAValidationError';
+  }
+}
+
+export function convertToPdfA(pdfDoc: PDFDocument, metadata: DocumentMetadata): void {
+  const { context, catalog } = pdfDoc;
+
+  // Chrome writes 1.4 headers; PDF/A-2 is based on PDF 1.7
+  context.header = PDFHeader.forVersion(1, 7);
+  removeForbiddenContent(pdfDoc);
+
+  const profile = context.flateStream(getSrgbProfile(), { N: 3 });
+  catalog.set(PDFName.of('OutputIntents'), context.obj([
+    context.obj({
+      Type: 'OutputIntent',
+      S: 'GTS_PDFA1',
+      OutputConditionIdentifier: PDFString.of(SRGB_PROFILE_NAME),
+      Info: PDFString.of(SRGB_PROFILE_NAME),
+      DestOutputProfile: context.register(profile),
+    }),
+  ]));
+
+  // Metadata streams are left uncompressed so archive tools can read them directly
+  const xmp = context.stream(Buffer.from(buildXmp(metadata), 'utf8'), { Type: 'Metadata', Subtype: 'XML' });
+  catalog.set(PDFName.of('Metadata'), context.register(xmp));
+
+  const id = PDFHexString.of(crypto.randomBytes(16).toString('hex'));
+  context.trailerInfo.ID = context.obj([id, id]);
+}
+
+export async function assertPdfA(pdfPath: string): Promise<void> {
+  const problems = await validatePdfA(await fs.readFile(pdfPath));
+  if (problems.length > 0) {
+    throw new PdfAValidationError(problems);
+  }
+}
+
+// Offline checks of the PDF/A-2b requirements this pipeline is responsible for
+export async function validatePdfA(bytes: Uint8Array): Promise<string[]> {
+  const problems: string[] = [];
+  const text = Buffer.from(bytes).toString('latin1');
+
+  if (!/^%PDF-1\.[0-7]\r?\n%[\x80-\xff]{4}/.test(text)) {
+    problems.push('missing PDF header or binary comment');
+  }
+
+  let pdfDoc: PDFDocument;
+  try {
+    pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  } catch (error) {
+    return [...problems, `cannot be parsed: ${error instanceof Error ? error.message : error}`];
+  }
+
+  const { context, catalog } = pdfDoc;
+
+  if (pdfDoc.isEncrypted) {
+    problems.push('document is encrypted');
+  }
+  if (!context.trailerInfo.ID) {
+    problems.push('trailer has no file identifier (ID)');
+  }
+
+  const xmp = catalog.lookupMaybe(PDFName.of('Metadata'), PDFStream);
+  const xmpText = xmp ? Buffer.from(xmp.getContents()).toString('utf8') : '';
+  if (!xmpText) {
+    problems.push('no XMP metadata stream');
+  } else if (!/pdfaid:part(>|=")2/.test(xmpText) || !/pdfaid:conformance(>|=")B/.test(xmpText)) {
+    problems.push('XMP metadata does not declare PDF/A-2b');
+  }
+
+  const intents = catalog.lookupMaybe(PDFName.of('OutputIntents'), PDFArray);
+  const hasPdfAIntent = intents?.asArray().some((intent) => {
+    const dict = context.lookup(intent);
+    return dict instanceof PDFDict
+      && dict.get(PDFName.of('S')) === PDFName.of('GTS_PDFA1')
+      && dict.lookupMaybe(PDFName.of('DestOutputProfile'), PDFStream) !== undefined;
+  });
+  if (!hasPdfAIntent) {
+    problems.push('no PDF/A output intent with an ICC profile');
+  }
+
+  const unembedded = new Set<string>();
+  forEachDict(pdfDoc, (dict) => {
+    if (dict.get(PDFName.of('JS')) || dict.get(PDFName.of('S')) === PDFName.of('JavaScript')) {
+      problems.push('contains JavaScript');
+    }
+    if (dict.get(PDFName.of('Type')) === PDFName.of('Font') && !isFontEmbedded(pdfDoc, dict)) {
+      unembedded.add(dict.get(PDFName.of('BaseFont'))?.toString() ?? 'unnamed font');
+    }
+  });
+  if (unembedded.size > 0) {
+    problems.push(`fonts not embedded: ${Array.from(unembedded).join(', ')}`);
+  }
+
+  return Array.from(new Set(problems));
+}
+
+function removeForbiddenContent(pdfDoc: PDFDocument): void {
+  const { context, catalog } = pdfDoc;
+
+  // Document-level JavaScript and attachments
+  const names = catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  names?.delete(PDFName.of('JavaScript'));
+  names?.delete(PDFName.of('EmbeddedFiles'));
+  catalog.delete(PDFName.of('AA'));
+
+  const isForbiddenAction = (value: PDFObject | undefined) => {
+    const action = value && context.lookup(value);
+    const type = action instanceof PDFDict ? action.get(PDFName.of('S')) : undefined;
+    return type instanceof PDFName && FORBIDDEN_ACTIONS.has(type.decodeText());
+  };
+
+  forEachDict(pdfDoc, (dict) => {
+    dict.delete(PDFName.of('AA'));
+    for (const key of ['A', 'OpenAction']) {
+      if (isForbiddenAction(dict.get(PDFName.of(key)))) dict.delete(PDFName.of(key));
+    }
+
+    const type = dict.get(PDFName.of('Type'));
+    const subtype = dict.get(PDFName.of('Subtype'));
+
+    if (type === PDFName.of('ExtGState') || dict.has(PDFName.of('BM'))) {
+      // Transfer functions and non-standard blend modes are not allowed
+      dict.delete(PDFName.of('TR'));
+      const tr2 = dict.get(PDFName.of('TR2'));
+      if (tr2 && tr2 !== PDFName.of('Default')) dict.set(PDFName.of('TR2'), PDFName.of('Default'));
+      const blendMode = dict.get(PDFName.of('BM'));
+      if (blendMode instanceof PDFName && !STANDARD_BLEND_MODES.has(blendMode.decodeText())) {
+        dict.set(PDFName.of('BM'), PDFName.of('Normal'));
+      }
+    }
+
+    if (type === PDFName.of('Annot') || (dict.has(PDFName.of('Rect')) && subtype === PDFName.of('Link'))) {
+      const flags = dict.lookupMaybe(PDFName.of('F'), PDFNumber)?.asNumber() ?? 0;
+      dict.set(PDFName.of('F'), PDFNumber.of((flags | ANNOTATION_PRINT_FLAG) & ~ANNOTATION_HIDING_FLAGS));
+    }
+
+    if (subtype === PDFName.of('Image')) {
+      dict.delete(PDFName.of('Alternates'));
+      dict.delete(PDFName.of('OPI'));
+      if (dict.has(PDFName.of('Interpolate'))) dict.set(PDFName.of('Interpolate'), context.obj(false));
+    }
+  });
+
+  // Transparency groups on pages must use the output intent's color space
+  for (const page of pdfDoc.getPages()) {
+    const group = page.node.lookupMaybe(PDFName.of('Group'), PDFDict);
+    if (group && group.get(PDFName.of('S')) === PDFName.of('Transparency')) {
+      group.set(PDFName.of('CS'), PDFName.of('DeviceRGB'));
+    }
+  }
+}
+
+function isFontEmbedded(pdfDoc: PDFDocument, font: PDFDict): boolean {
+  const { context } = pdfDoc;
+  const subtype = font.get(PDFName.of('Subtype'));
+
+  if (subtype === PDFName.of('Type3')) return true; // glyphs are content streams
+  if (subtype === PDFName.of('Type0')) {
+    const descendants = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray);
+    const descendant = descendants && context.lookup(descendants.get(0));
+    return descendant instanceof PDFDict && isFontEmbedded(pdfDoc, descendant);
+  }
+
+  const descriptor = font.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+  return ['FontFile', 'FontFile2', 'FontFile3'].some(key => descriptor?.has(PDFName.of(key)));
+}
+
+// Every dictionary in the file, including stream dictionaries and direct nested ones
+function forEachDict(pdfDoc: PDFDocument, visit: (dict: PDFDict) => void): void {
+  const walk = (object: PDFObject) => {
+    if (object instanceof PDFStream) {
+      walk(object.dict);
+    } else if (object instanceof PDFDict) {
+      visit(object);
+      for (const [, value] of object.entries()) walk(value);
+    } else if (object instanceof PDFArray) {
+      object.asArray().forEach(walk);
+    }
+  };
+
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    walk(object);
+  }
+}
+
+function buildXmp(metadata: DocumentMetadata): string {
+  const date = metadata.creationDate.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const escape = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+  // Values mirror the Info dictionary written by applyDocumentMetadata, as PDF/A requires
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/">
+      <pdfaid:part>2</pdfaid:part>
+      <pdfaid:conformance>B</pdfaid:conformance>
+      <dc:format>application/pdf</dc:format>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escape(metadata.title)}</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>${escape(metadata.author)}</rdf:li></rdf:Seq></dc:creator>
+      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escape(metadata.subject)}</rdf:li></rdf:Alt></dc:description>
+      <pdf:Keywords>${escape(metadata.keywords.join(' '))}</pdf:Keywords>
+      <pdf:Producer>${escape(metadata.producer)}</pdf:Producer>
+      <xmp:CreatorTool>${escape(metadata.creator)}</xmp:CreatorTool>
+      <xmp:CreateDate>${date}</xmp:CreateDate>
+      <xmp:ModifyDate>${date}</xmp:ModifyDate>
+      <xmp:MetadataDate>${date}</xmp:MetadataDate>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
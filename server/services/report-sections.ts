@@ -0,0 +1,72 @@
+// Section headers of Cohen reports. Chrome builds the PDF outline (bookmarks) from the
+// document's headings, so detected sections are marked as headings before printing.
+import type { Page } from 'puppeteer';
+
+interface SectionPattern {
+  prefix: string; // lower-case start of the header text
+  level: number; // outline level: 1 = top-level entry
+}
+
+export interface ReportSection {
+  id: string; // element id, used as the link target of the table of contents
+  title: string;
+  level: number;
+}
+
+const SECTION_PATTERNS: SectionPattern[] = [
+  { prefix: 'resumen de', level: 1 },
+  { prefix: 'tenencias al', level: 1 },
+  { prefix: 'movimientos', level: 1 }, // "Movimientos" / "Movimientos entre ..."
+  { prefix: 'rendimiento por activo', level: 2 },
+  { prefix: 'renta fija', level: 3 },
+  { prefix: 'renta variable', level: 3 },
+];
+
+// Marks the detected sections as headings and returns them in document order
+export async function markReportSections(page: Page): Promise<ReportSection[]> {
+  return page.evaluate((patterns: SectionPattern[]) => {
+    const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6, [role="heading"]';
+    // Block containers only: a heading role on a table cell breaks the table, and inline
+    // elements (<strong>) are terms inside explanatory text
+    const CONTAINER_SELECTOR = 'div, p, caption, header, section';
+    const MAX_HEADER_LENGTH = 80; // longer text is a paragraph that happens to start like a header
+    const sections: ReportSection[] = [];
+
+    const ownText = (element: Element) =>
+      Array.from(element.childNodes)
+        .filter(node => node.nodeType === Node.TEXT_NODE)
+        .map(node => node.textContent || '')
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .toLowerCase();
+
+    document.body.querySelectorAll('*').forEach((element) => {
+      const text = ownText(element);
+      if (!text || text.includes('total')) return; // skip subtotal rows like "Renta Fija Total:"
+
+      const pattern = patterns.find(candidate => text.startsWith(candidate.prefix));
+      if (!pattern) return;
+
+      const isHeading = element.matches('h1, h2, h3, h4, h5, h6');
+      if (!isHeading && (
+        text.length > MAX_HEADER_LENGTH ||
+        !element.matches(CONTAINER_SELECTOR) ||
+        element.parentElement?.closest(HEADING_SELECTOR) // already inside a marked header
+      )) return;
+
+      element.setAttribute('role', 'heading');
+      element.setAttribute('aria-level', String(pattern.level));
+      if (!element.id) {
+        element.id = `report-section-${sections.length + 1}`;
+      }
+      sections.push({
+        id: element.id,
+        title: (element.textContent || '').replace(/\s+/g, ' ').trim(),
+        level: pattern.level,
+      });
+    });
+
+    return sections;
+  }, SECTION_PATTERNS);
+}
@@ -0,0 +1,59 @@
+// Result cache: re-uploads of the same report with the same config reuse the PDF that
+// was already rendered instead of queueing a new render
+import { createHash } from 'crypto';
+import fs from 'fs';
+import { storage } from '../storage.js';
+import type { ConversionJob, InsertConversionJob, PdfConfig } from '../../shared/schema.js';
+
+// Only line endings and surrounding whitespace are ignored: whitespace inside the document
+// can be significant (<pre>, white-space styles, inline text) and must not share a PDF
+function normalizeHtml(html: string): string {
+  return html.replace(/\r\n/g, '\n').trim();
+}
+
+// Config keys in a stable order so {a, b} and {b, a} hash the same
+function canonicalConfig(config: PdfConfig): string {
+  const sorted = Object.fromEntries(
+    Object.entries(config).sort(([a], [b]) => a.localeCompare(b))
+  );
+  return JSON.stringify(sorted);
+}
+
+// The filename is part of the key: it can end up in the PDF ({filename} in header/footer
+// templates, the title fallback). null for configs whose output must not be shared:
+// encrypted PDFs depend on passwords that aren't part of the stored config
+export function computeContentHash(html: string, filename: string, config: PdfConfig): string | null {
+  if (config.encryption) return null;
+
+  return createHash('sha256')
+    .update(normalizeHtml(html))
+    .update('\0')
+    .update(filename)
+    .update('\0')
+    .update(canonicalConfig(config))
+    .digest('hex');
+}
+
+// Newest completed job for this hash whose PDF is still on disk
+export async function findCachedResult(contentHash: string): Promise<ConversionJob | undefined> {
+  const cachedJob = await storage.findCompletedJobByHash(contentHash);
+  if (!cachedJob?.pdfPath || !fs.existsSync(cachedJob.pdfPath)) {
+    return undefined;
+  }
+  return cachedJob;
+}
+
+// Record a new job that is immediately completed and shares the cached job's PDF
+export async function createCachedJob(insertJob: InsertConversionJob, cachedJob: ConversionJob): Promise<ConversionJob> {
+  const job = await storage.createConversionJob(insertJob);
+  await storage.updateConversionJobProgress(job.id, 100, []);
+  if (cachedJob.effectiveSettings) {
+    await storage.updateConversionJobSettings(job.id, JSON.parse(cachedJob.effectiveSettings));
+  }
+  if (cachedJob.signedBy && cachedJob.signatureHash) {
+    await storage.updateConversionJobSignature(job.id, { signedBy: cachedJob.signedBy, signatureHash: cachedJob.signatureHash });
+  }
+  const completedJob = await storage.updateConversionJobStatus(job.id, "completed", cachedJob.pdfPath!);
+  console.log(`Job ${job.id} served from cache (PDF of job ${cachedJob.id})`);
+  return completedJob ?? job;
+}
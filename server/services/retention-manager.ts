@@ -0,0 +1,150 @@
+// Retention manager: expires old PDFs, enforces the disk quota and purges stored HTML
+import fs from 'fs/promises';
+import path from 'path';
+import { storage, type JobArtifact } from '../storage.js';
+
+const PDF_OUTPUT_DIR = './generated-pdfs';
+const HOUR = 60 * 60 * 1000;
+
+const PDF_TTL = parseFloat(process.env.PDF_RETENTION_HOURS || '168') * HOUR; // 7 days
+const HTML_TTL = parseFloat(process.env.HTML_RETENTION_HOURS || '24') * HOUR; // reports are confidential
+const DISK_QUOTA_BYTES = parseFloat(process.env.PDF_DISK_QUOTA_MB || '1024') * 1024 * 1024;
+const SWEEP_INTERVAL = parseFloat(process.env.RETENTION_SWEEP_MINUTES || '15') * 60 * 1000;
+
+let sweepTimer: NodeJS.Timeout | undefined;
+let sweepInProgress = false;
+
+export function startRetentionSweeper(): void {
+  stopRetentionSweeper();
+
+  console.log(`Starting retention sweeper (PDF TTL ${PDF_TTL / HOUR}h, HTML TTL ${HTML_TTL / HOUR}h, quota ${Math.round(DISK_QUOTA_BYTES / 1024 / 1024)}MB)`);
+
+  // Sweep once at startup, then on a fixed interval
+  runRetentionSweep();
+  sweepTimer = setInterval(runRetentionSweep, SWEEP_INTERVAL);
+  sweepTimer.unref();
+}
+
+export function stopRetentionSweeper(): void {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = undefined;
+  }
+}
+
+export async function runRetentionSweep(): Promise<void> {
+  if (sweepInProgress) return;
+  sweepInProgress = true;
+
+  try {
+    const now = Date.now();
+    const artifacts = await storage.getJobsWithPdf(); // oldest first
+
+    // Cache hits share the PDF of an earlier job: a file is only deleted with the last job using it
+    const references = new Map<string, number>();
+    for (const artifact of artifacts) {
+      if (artifact.pdfPath) {
+        references.set(artifact.pdfPath, (references.get(artifact.pdfPath) || 0) + 1);
+      }
+    }
+
+    // 1. Expire PDFs past their TTL
+    const remaining: JobArtifact[] = [];
+    for (const artifact of artifacts) {
+      const completedAt = artifact.completedAt ? new Date(artifact.completedAt).getTime() : 0;
+      if (now - completedAt > PDF_TTL) {
+        await expireJob(artifact, 'TTL reached', references);
+      } else {
+        remaining.push(artifact);
+      }
+    }
+
+    // 2. Evict oldest PDFs until we are back under the disk quota
+    const sizes = new Map<string, number>();
+    for (const artifact of remaining) {
+      if (artifact.pdfPath && !sizes.has(artifact.pdfPath)) {
+        sizes.set(artifact.pdfPath, await getFileSize(artifact.pdfPath));
+      }
+    }
+    let totalSize = Array.from(sizes.values()).reduce((sum, size) => sum + size, 0);
+    const kept = new Set<string | null>();
+    for (const artifact of remaining) {
+      if (totalSize > DISK_QUOTA_BYTES) {
+        const deleted = await expireJob(artifact, 'disk quota exceeded', references);
+        if (deleted) {
+          totalSize -= sizes.get(artifact.pdfPath!) || 0;
+        }
+      } else {
+        kept.add(artifact.pdfPath);
+      }
+    }
+
+    // 3. Remove files no job points to (e.g. left over from earlier runs) once past the TTL
+    await removeOrphanedFiles(kept, now);
+
+    // 4. Drop the original HTML of finished jobs
+    const purged = await storage.purgeOriginalHtml(new Date(now - HTML_TTL));
+    if (purged > 0) {
+      console.log(`Purged original HTML of ${purged} jobs`);
+    }
+  } catch (error) {
+    console.error('Error running retention sweep:', error);
+  } finally {
+    sweepInProgress = false;
+  }
+}
+
+// Mark a job expired and delete its PDF once no other job references it.
+// Returns whether the file was deleted.
+async function expireJob(artifact: JobArtifact, reason: string, references: Map<string, number>): Promise<boolean> {
+  try {
+    let deleted = false;
+    if (artifact.pdfPath) {
+      const remainingReferences = (references.get(artifact.pdfPath) || 1) - 1;
+      references.set(artifact.pdfPath, remainingReferences);
+      if (remainingReferences === 0) {
+        await fs.rm(artifact.pdfPath, { force: true });
+        deleted = true;
+      }
+    }
+    await storage.updateConversionJobStatus(artifact.id, "expired");
+    console.log(`Expired job ${artifact.id} (${reason})`);
+    return deleted;
+  } catch (error) {
+    console.error(`Error expiring job ${artifact.id}:`, error);
+    return false;
+  }
+}
+
+async function getFileSize(filePath: string | null): Promise<number> {
+  if (!filePath) return 0;
+  try {
+    return (await fs.stat(filePath)).size;
+  } catch (error) {
+    return 0;
+  }
+}
+
+async function removeOrphanedFiles(referenced: Set<string | null>, now: number): Promise<void> {
+  let files: string[];
+  try {
+    files = await fs.readdir(PDF_OUTPUT_DIR);
+  } catch (error) {
+    return; // nothing generated yet
+  }
+
+  for (const file of files) {
+    const filePath = path.join(PDF_OUTPUT_DIR, file);
+    if (referenced.has(filePath)) continue;
+
+    try {
+      const stats = await fs.stat(filePath);
+      if (stats.isFile() && now - stats.mtimeMs > PDF_TTL) {
+        await fs.unlink(filePath);
+        console.log(`Removed orphaned file: ${filePath}`);
+      }
+    } catch (error) {
+      console.error(`Error removing orphaned file ${filePath}:`, error);
+    }
+  }
+}
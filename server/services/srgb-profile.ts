@@ -0,0 +1,107 @@
+// Minimal ICC v2 sRGB display profile (matrix/TRC), built in code so the PDF/A output
+// intent doesn't depend on a profile file being installed on the server
+const D50 = [0.9642, 1.0, 0.8249];
+
+// sRGB primaries adapted to D50, as published in the IEC 61966-2-1 profile
+const PRIMARIES: Record<'rXYZ' | 'gXYZ' | 'bXYZ', number[]> = {
+  rXYZ: [0.4361, 0.2225, 0.0139],
+  gXYZ: [0.3851, 0.7169, 0.0971],
+  bXYZ: [0.1431, 0.0606, 0.7141],
+};
+
+const TRC_ENTRIES = 1024;
+export const SRGB_PROFILE_NAME = 'sRGB IEC61966-2.1';
+
+let cachedProfile: Uint8Array | undefined;
+
+export function getSrgbProfile(): Uint8Array {
+  cachedProfile ??= buildSrgbProfile();
+  return cachedProfile;
+}
+
+function buildSrgbProfile(): Uint8Array {
+  const curve = curveTag();
+  const tags: [string, Buffer][] = [
+    ['desc', descriptionTag(SRGB_PROFILE_NAME)],
+    ['cprt', textTag('No copyright, use freely')],
+    ['wtpt', xyzTag(D50)],
+    ['rXYZ', xyzTag(PRIMARIES.rXYZ)],
+    ['gXYZ', xyzTag(PRIMARIES.gXYZ)],
+    ['bXYZ', xyzTag(PRIMARIES.bXYZ)],
+    ['rTRC', curve],
+    ['gTRC', curve],
+    ['bTRC', curve],
+  ];
+
+  // Header, tag count and tag table, then each tag's data 4-byte aligned
+  const tableSize = 4 + tags.length * 12;
+  let offset = 128 + tableSize;
+  const table = Buffer.alloc(tableSize);
+  table.writeUInt32BE(tags.length, 0);
+  const data: Buffer[] = [];
+
+  tags.forEach(([signature, tag], i) => {
+    table.write(signature, 4 + i * 12, 'ascii');
+    table.writeUInt32BE(offset, 8 + i * 12);
+    table.writeUInt32BE(tag.length, 12 + i * 12);
+    const padded = Buffer.alloc(Math.ceil(tag.length / 4) * 4);
+    tag.copy(padded);
+    data.push(padded);
+    offset += padded.length;
+  });
+
+  const header = Buffer.alloc(128);
+  header.writeUInt32BE(offset, 0);
+  header.writeUInt32BE(0x02100000, 8); // version 2.1
+  header.write('mntr', 12, 'ascii');
+  header.write('RGB ', 16, 'ascii');
+  header.write('XYZ ', 20, 'ascii');
+  [2024, 1, 1, 0, 0, 0].forEach((value, i) => header.writeUInt16BE(value, 24 + i * 2));
+  header.write('acsp', 36, 'ascii');
+  D50.forEach((value, i) => header.writeInt32BE(s15Fixed16(value), 68 + i * 4));
+
+  return new Uint8Array(Buffer.concat([header, table, ...data]));
+}
+
+function xyzTag([x, y, z]: number[]): Buffer {
+  const tag = Buffer.alloc(20);
+  tag.write('XYZ ', 0, 'ascii');
+  tag.writeInt32BE(s15Fixed16(x), 8);
+  tag.writeInt32BE(s15Fixed16(y), 12);
+  tag.writeInt32BE(s15Fixed16(z), 16);
+  return tag;
+}
+
+// Sampled sRGB transfer function (linear segment near black, 2.4 power above)
+function curveTag(): Buffer {
+  const tag = Buffer.alloc(12 + TRC_ENTRIES * 2);
+  tag.write('curv', 0, 'ascii');
+  tag.writeUInt32BE(TRC_ENTRIES, 8);
+  for (let i = 0; i < TRC_ENTRIES; i++) {
+    const v = i / (TRC_ENTRIES - 1);
+    const linear = v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    tag.writeUInt16BE(Math.round(linear * 65535), 12 + i * 2);
+  }
+  return tag;
+}
+
+function textTag(text: string): Buffer {
+  const tag = Buffer.alloc(8 + text.length + 1);
+  tag.write('text', 0, 'ascii');
+  tag.write(text, 8, 'ascii');
+  return tag;
+}
+
+// textDescriptionType: ASCII description plus empty Unicode and ScriptCode parts
+function descriptionTag(text: string): Buffer {
+  const ascii = text.length + 1;
+  const tag = Buffer.alloc(12 + ascii + 8 + 3 + 67);
+  tag.write('desc', 0, 'ascii');
+  tag.writeUInt32BE(ascii, 8);
+  tag.write(text, 12, 'ascii');
+  return tag;
+}
+
+function s15Fixed16(value: number): number {
+  return Math.round(value * 65536);
+}
@@ -0,0 +1,60 @@
+// Font for text stamped with pdf-lib (header/footer, watermark). Standard PDF fonts are
+// referenced, not embedded, which PDF/A forbids; archival output embeds a TrueType font instead.
+import fs from 'fs/promises';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fontkit from '@pdf-lib/fontkit';
+import { StandardFonts, type PDFDocument, type PDFFont } from 'pdf-lib';
+import type { OutputProfile } from '../../shared/schema.js';
+
+const execFileAsync = promisify(execFile);
+
+type FontStyle = 'regular' | 'bold';
+
+const STANDARD_FONTS: Record<FontStyle, StandardFonts> = {
+  regular: StandardFonts.Helvetica,
+  bold: StandardFonts.HelveticaBold,
+};
+
+// Overrides for servers without fontconfig; otherwise the system sans-serif font is used
+const FONT_PATH_ENV: Record<FontStyle, string> = {
+  regular: 'PDFA_FONT_PATH',
+  bold: 'PDFA_BOLD_FONT_PATH',
+};
+
+const fontFiles = new Map<FontStyle, Promise<Uint8Array>>();
+
+export async function embedStampFont(pdfDoc: PDFDocument, style: FontStyle, profile: OutputProfile): Promise<PDFFont> {
+  if (profile !== 'pdfa-2b') {
+    return pdfDoc.embedFont(STANDARD_FONTS[style]);
+  }
+
+  pdfDoc.registerFontkit(fontkit);
+  return pdfDoc.embedFont(await loadFontFile(style), { subset: true });
+}
+
+function loadFontFile(style: FontStyle): Promise<Uint8Array> {
+  let file = fontFiles.get(style);
+  if (!file) {
+    file = resolveFontPath(style).then(fontPath => fs.readFile(fontPath));
+    // Don't cache a failure, the font may be installed later
+    file.catch(() => fontFiles.delete(style));
+    fontFiles.set(style, file);
+  }
+  return file;
+}
+
+async function resolveFontPath(style: FontStyle): Promise<string> {
+  const configured = process.env[FONT_PATH_ENV[style]] || (style === 'bold' ? process.env.PDFA_FONT_PATH : undefined);
+  if (configured) return configured;
+
+  try {
+    const pattern = style === 'bold' ? 'sans-serif:bold' : 'sans-serif';
+    const { stdout } = await execFileAsync('fc-match', ['--format=%{file}', pattern], { timeout: 5000 });
+    if (/\.(ttf|otf)$/i.test(stdout.trim())) return stdout.trim();
+  } catch (error) {
+    console.error('fc-match failed:', error);
+  }
+
+  throw new Error(`PDF/A output needs a TrueType font to embed; set ${FONT_PATH_ENV[style]}`);
+}
@@ -0,0 +1,78 @@
+// Auto-fit of tables to the printable width. Every table is measured as laid out for
+// print; one that overflows its page gets its text shrunk just enough to fit, but never
+// below the configured minimum font size.
+import type { Page } from 'puppeteer';
+import type { FittedTable } from '../../shared/schema.js';
+import { contentWidthPx, type PageSettings } from './page-settings.js';
+import { LANDSCAPE_SECTION_CLASS } from './wide-tables.js';
+
+// Shrinks the overflowing tables and returns them (tables that already fit are left alone)
+export async function fitTablesToPage(page: Page, settings: PageSettings, minFontSize: number): Promise<FittedTable[]> {
+  const portraitWidth = contentWidthPx(settings);
+  await page.setViewport({ width: portraitWidth, height: 1000 });
+
+  return page.evaluate((landscapeClass: string, landscapeWidth: number, minFont: number) => {
+    const TOLERANCE = 1; // px, rounding of borders
+    const SCALE_STEP = 0.95; // text width doesn't shrink exactly with the font (padding, borders)
+    const MAX_LABEL_LENGTH = 60;
+    const fitted: FittedTable[] = [];
+
+    const contentWidth = (element: HTMLElement) => {
+      const style = getComputedStyle(element);
+      return element.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight);
+    };
+
+    const describe = (table: HTMLTableElement) => {
+      const source = table.caption || table.querySelector('tr');
+      const text = (source?.textContent || '').replace(/\s+/g, ' ').trim();
+      return text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH)}...` : text;
+    };
+
+    const tables = Array.from(document.querySelectorAll('table')).filter(table => !table.parentElement?.closest('table'));
+
+    tables.forEach((table, index) => {
+      const parent = table.parentElement;
+      if (!parent) return;
+
+      // Room the table gets on its printed page: the viewport is the portrait content width,
+      // landscape sections get the wider sheet minus the same container padding
+      const insets = document.documentElement.clientWidth - contentWidth(parent);
+      const available = table.closest(`.${landscapeClass}`)
+        ? landscapeWidth - insets
+        : contentWidth(parent);
+      const fits = () => table.scrollWidth <= available + TOLERANCE;
+      if (fits()) return;
+
+      // Report text can set its own sizes on cells and spans, so every element is scaled
+      const elements = [table, ...Array.from(table.querySelectorAll<HTMLElement>('*'))];
+      const originalSizes = elements.map(element => parseFloat(getComputedStyle(element).fontSize));
+      const baseFont = originalSizes[0];
+      const minScale = Math.min(1, minFont / baseFont);
+      const applyScale = (scale: number) => {
+        elements.forEach((element, i) => {
+          const original = originalSizes[i];
+          // Text already below the minimum keeps its size instead of growing
+          const size = original <= minFont ? original : Math.max(minFont, original * scale);
+          element.style.setProperty('font-size', `${size}px`, 'important');
+        });
+      };
+
+      // Start from the width ratio, then step down until it fits or hits the minimum
+      let scale = Math.max(minScale, Math.min(1, available / table.scrollWidth));
+      applyScale(scale);
+      while (!fits() && scale > minScale) {
+        scale = Math.max(minScale, scale * SCALE_STEP);
+        applyScale(scale);
+      }
+
+      fitted.push({
+        index: index + 1,
+        label: describe(table),
+        fontSize: Math.round((baseFont <= minFont ? baseFont : Math.max(minFont, baseFont * scale)) * 10) / 10,
+        fits: fits(),
+      });
+    });
+
+    return fitted;
+  }, LANDSCAPE_SECTION_CLASS, contentWidthPx(settings, true), minFontSize);
+}
@@ -0,0 +1,136 @@
+// Keeps the groups of Cohen tables together across page breaks. A group is a header row
+// ("Renta Fija", "Acciones Argentinas"...), its rows and, at the top level, its subtotal
+// row. Each group that fits on a page gets its own <tbody> that may not be broken; a
+// longer one is split into its sub-groups, and its subtotal stays with its last rows.
+import type { Page } from 'puppeteer';
+import { contentHeightPx, type PageSettings } from './page-settings.js';
+import { GROUP_LEVEL_ATTRIBUTE, SUBTOTAL_ROW_CLASS } from './table-rows.js';
+import { LANDSCAPE_SECTION_CLASS } from './wide-tables.js';
+
+const KEEP_TOGETHER_CLASS = 'cohen-keep-together';
+
+// Rows kept on the same page as a subtotal when its group doesn't fit on one page
+const ROWS_WITH_SUBTOTAL = 2;
+
+export function groupCss(): string {
+  return `
+    table tbody.${KEEP_TOGETHER_CLASS} {
+      break-inside: avoid;
+      page-break-inside: avoid;
+    }
+  `;
+}
+
+// Regroups the body rows of every table, as marked by markTableRows; returns how many
+// groups are kept together
+export async function keepTableGroupsTogether(page: Page, settings: PageSettings): Promise<number> {
+  return page.evaluate((
+    keepClass: string,
+    landscapeClass: string,
+    levelAttribute: string,
+    subtotalClass: string,
+    rowsWithSubtotal: number,
+    portraitHeight: number,
+    landscapeHeight: number
+  ) => {
+    const heights = new Map<HTMLTableRowElement, number>();
+    const height = (rows: HTMLTableRowElement[]) => rows.reduce((sum, row) => sum + (heights.get(row) ?? 0), 0);
+
+    const headerLevel = (row: HTMLTableRowElement) => {
+      const level = row.getAttribute(levelAttribute);
+      return level ? Number(level) : null;
+    };
+    const isSubtotal = (row: HTMLTableRowElement) => row.classList.contains(subtotalClass);
+
+    // Splits rows at the headers of the outermost level present; rows before the first
+    // header stand alone
+    const partition = (rows: HTMLTableRowElement[]) => {
+      const levels = rows.map(headerLevel).filter((level): level is number => level !== null);
+      if (levels.length === 0) return rows.map(row => [row]);
+
+      const topLevel = Math.min(...levels);
+      const groups: HTMLTableRowElement[][] = [];
+      let current: HTMLTableRowElement[] | null = null;
+      rows.forEach((row) => {
+        if (headerLevel(row) === topLevel) {
+          current = [row];
+          groups.push(current);
+        } else if (current) {
+          current.push(row);
+        } else {
+          groups.push([row]);
+        }
+      });
+      return groups;
+    };
+
+    // Units printed as one <tbody> each: the whole group if it fits, otherwise its parts
+    const splitGroup = (rows: HTMLTableRowElement[], maxHeight: number): HTMLTableRowElement[][] => {
+      if (rows.length <= 1 || height(rows) <= maxHeight) return [rows];
+
+      const header = headerLevel(rows[0]) !== null ? rows[0] : null;
+      const subtotal = rows.length > 1 && isSubtotal(rows[rows.length - 1]) ? rows[rows.length - 1] : null;
+      const body = rows.slice(header ? 1 : 0, subtotal ? -1 : undefined);
+      const units = partition(body).flatMap(group => splitGroup(group, maxHeight));
+
+      // The header starts its first unit, or at least comes with its first row
+      if (header) {
+        const first = units.shift() ?? [];
+        if (height([header, ...first]) <= maxHeight) {
+          units.unshift([header, ...first]);
+        } else {
+          units.unshift([header, ...first.slice(0, 1)], first.slice(1));
+        }
+      }
+      // The subtotal never starts a page on its own
+      if (subtotal) {
+        const last = units.pop() ?? [];
+        if (height([...last, subtotal]) <= maxHeight) {
+          units.push([...last, subtotal]);
+        } else {
+          units.push(last.slice(0, -rowsWithSubtotal), [...last.slice(-rowsWithSubtotal), subtotal]);
+        }
+      }
+      return units.filter(unit => unit.length > 0);
+    };
+
+    let keptTogether = 0;
+
+    document.querySelectorAll('table').forEach((table) => {
+      const landscape = !!table.closest(`.${landscapeClass}`);
+      // Room below the header row, which is repeated on every page
+      const maxHeight = (landscape ? landscapeHeight : portraitHeight) - (table.tHead?.getBoundingClientRect().height ?? 0);
+
+      Array.from(table.tBodies).forEach((tbody) => {
+        const rows = Array.from(tbody.rows);
+        if (!rows.some(row => headerLevel(row) !== null)) return;
+        // A cell spanning rows can't be cut across two <tbody>s
+        if (rows.some(row => Array.from(row.cells).some(cell => cell.rowSpan > 1))) return;
+        rows.forEach(row => heights.set(row, row.getBoundingClientRect().height));
+
+        const units = partition(rows).flatMap(group => splitGroup(group, maxHeight));
+        if (units.length === 1) {
+          if (rows.length > 1 && height(rows) <= maxHeight) {
+            tbody.classList.add(keepClass);
+            keptTogether++;
+          }
+          return;
+        }
+
+        units.forEach((unit) => {
+          const group = tbody.cloneNode(false) as HTMLTableSectionElement;
+          if (unit.length > 1 && height(unit) <= maxHeight) {
+            group.classList.add(keepClass);
+            keptTogether++;
+          }
+          unit.forEach(row => group.appendChild(row));
+          table.insertBefore(group, tbody);
+        });
+        tbody.remove();
+      });
+    });
+
+    return keptTogether;
+  }, KEEP_TOGETHER_CLASS, LANDSCAPE_SECTION_CLASS, GROUP_LEVEL_ATTRIBUTE, SUBTOTAL_ROW_CLASS, ROWS_WITH_SUBTOTAL,
+    contentHeightPx(settings), contentHeightPx(settings, true));
+}
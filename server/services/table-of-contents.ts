@@ -0,0 +1,116 @@
+// Optional printed index at the front of the report. The first render tells on which page
+// each section lands (from the PDF outline); the index is then inserted into the page and
+// the report printed again, re-rendering if the index shifted the pages differently.
+import type { Page, PDFOptions } from 'puppeteer';
+import { readPdfOutline, type OutlineEntry } from './pdf-outline.js';
+import type { ReportSection } from './report-sections.js';
+
+const TOC_ELEMENT_ID = 'cohen-table-of-contents';
+const MAX_RENDER_PASSES = 3; // after the first pass
+
+export async function addTableOfContents(
+  page: Page,
+  sections: ReportSection[],
+  pdfOptions: PDFOptions,
+  firstPass: Uint8Array
+): Promise<Uint8Array> {
+  if (sections.length === 0) {
+    console.log('No report sections found, skipping table of contents');
+    return firstPass;
+  }
+
+  const firstPassPages = matchSectionPages(sections, await readPdfOutline(firstPass));
+  if (firstPassPages.every(pageIndex => pageIndex === null)) {
+    console.log('PDF outline has no section destinations, skipping table of contents');
+    return firstPass;
+  }
+
+  // Start by assuming the index fits on one page, which pushes every section one page down
+  let pageNumbers = firstPassPages.map(pageIndex => (pageIndex === null ? null : pageIndex + 2));
+  let pdfBytes = firstPass;
+
+  for (let pass = 1; pass <= MAX_RENDER_PASSES; pass++) {
+    await insertTableOfContents(page, sections, pageNumbers);
+    pdfBytes = await page.pdf(pdfOptions);
+
+    const actualPages = matchSectionPages(sections, await readPdfOutline(pdfBytes));
+    const actualNumbers = actualPages.map(pageIndex => (pageIndex === null ? null : pageIndex + 1));
+    if (actualNumbers.every((number, i) => number === null || number === pageNumbers[i])) {
+      console.log(`Table of contents with ${sections.length} entries rendered in ${pass + 1} passes`);
+      return pdfBytes;
+    }
+
+    console.log('Table of contents page numbers shifted, rendering again');
+    pageNumbers = actualNumbers;
+  }
+
+  console.warn('Table of contents page numbers did not settle, keeping the last render');
+  return pdfBytes;
+}
+
+// Pair each section with its outline entry (same title, in document order)
+function matchSectionPages(sections: ReportSection[], outline: OutlineEntry[]): (number | null)[] {
+  const normalize = (title: string) => title.replace(/\s+/g, ' ').trim().toLowerCase();
+  let cursor = 0;
+
+  return sections.map((section) => {
+    const title = normalize(section.title);
+    for (let i = cursor; i < outline.length; i++) {
+      if (normalize(outline[i].title) === title) {
+        cursor = i + 1;
+        return outline[i].pageIndex;
+      }
+    }
+    return null;
+  });
+}
+
+async function insertTableOfContents(page: Page, sections: ReportSection[], pageNumbers: (number | null)[]): Promise<void> {
+  const html = buildTableOfContentsHtml(sections, pageNumbers);
+  await page.evaluate((elementId: string, tocHtml: string) => {
+    let toc = document.getElementById(elementId);
+    if (!toc) {
+      toc = document.createElement('nav');
+      toc.id = elementId;
+      document.body.prepend(toc);
+    }
+    toc.innerHTML = tocHtml;
+  }, TOC_ELEMENT_ID, html);
+}
+
+function buildTableOfContentsHtml(sections: ReportSection[], pageNumbers: (number | null)[]): string {
+  const items = sections.map((section, i) => `
+    <li class="toc-level-${section.level}">
+      <a href="#${escapeHtml(section.id)}">
+        <span class="toc-title">${escapeHtml(section.title)}</span>
+        <span class="toc-dots"></span>
+        <span class="toc-page">${pageNumbers[i] ?? ''}</span>
+      </a>
+    </li>
+  `).join('');
+
+  // The title is deliberately not a heading, so the index doesn't appear in the outline
+  return `
+    <style>
+      #${TOC_ELEMENT_ID} { page-break-after: always; break-after: page; font-family: Arial, sans-serif; color: #333; }
+      #${TOC_ELEMENT_ID} .toc-heading { font-size: 18px; font-weight: bold; margin: 8px 0 16px; color: #7a1f2b; }
+      #${TOC_ELEMENT_ID} ol { list-style: none; margin: 0; padding: 0; }
+      #${TOC_ELEMENT_ID} li { margin: 4px 0; font-size: 12px; }
+      #${TOC_ELEMENT_ID} li.toc-level-1 { font-weight: bold; margin-top: 10px; }
+      #${TOC_ELEMENT_ID} li.toc-level-2 { padding-left: 16px; }
+      #${TOC_ELEMENT_ID} li.toc-level-3 { padding-left: 32px; font-size: 11px; }
+      #${TOC_ELEMENT_ID} a { display: flex; align-items: baseline; color: inherit; text-decoration: none; }
+      #${TOC_ELEMENT_ID} .toc-dots { flex: 1; border-bottom: 1px dotted #999; margin: 0 6px; }
+    </style>
+    <div class="toc-heading">Índice</div>
+    <ol>${items}</ol>
+  `;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
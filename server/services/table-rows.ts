@@ -0,0 +1,43 @@
+// Row roles in Cohen tables: group headers ("Renta Fija", "Acciones Argentinas"...) with
+// their nesting level, and subtotal rows. They are worked out once on the report HTML and
+// written into it, so the table theme, the in-page passes and both renderers agree.
+import type { CheerioAPI } from 'cheerio';
+
+export const GROUP_LEVEL_ATTRIBUTE = 'data-cohen-group';
+export const SUBTOTAL_ROW_CLASS = 'cohen-subtotal';
+
+// Row classes of the group headers in Cohen reports (lower-case) and their nesting level
+const GROUP_HEADER_LEVELS: Record<string, number> = {
+  grupoinstrumentoporgrupo: 1, // Renta Fija / Renta Variable, with the column titles
+  grupoinstrumentotipo: 1, // Dividendos, Gastos... in the income summary
+  grupoinstrumentoclase: 2, // asset class: Acciones Argentinas, Tasa Fija USD...
+  grupoinstrumento: 3, // one instrument, followed by its lots
+};
+
+function headerLevel(classNames: string[]): number | null {
+  const levels = classNames
+    .map(name => GROUP_HEADER_LEVELS[name.toLowerCase()])
+    .filter((level): level is number => level !== undefined);
+  return levels.length > 0 ? Math.min(...levels) : null;
+}
+
+function isSubtotal(classNames: string[], firstCellText: string): boolean {
+  return classNames.some(name => name.toLowerCase().includes('subtotal')) ||
+    /\btotal:?\s*$/i.test(firstCellText.trim());
+}
+
+// Tags group header rows with their level and subtotal rows with a class
+export function markTableRows($: CheerioAPI): void {
+  $('tr').each((_, row) => {
+    const $row = $(row);
+    const classNames = ($row.attr('class') || '').split(/\s+/).filter(Boolean);
+
+    const level = headerLevel(classNames);
+    if (level !== null) {
+      $row.attr(GROUP_LEVEL_ATTRIBUTE, String(level));
+    }
+    if (isSubtotal(classNames, $row.children('td, th').first().text())) {
+      $row.addClass(SUBTOTAL_ROW_CLASS);
+    }
+  });
+}
@@ -0,0 +1,175 @@
+// Splitting of over-wide tables into column blocks. Instead of shrinking a table with many
+// columns until it's hard to read, it's printed as several tables one after another, each
+// with the first (identifying) column, a group of the other columns and all the rows.
+import type { Page } from 'puppeteer';
+import { contentWidthPx, type PageSettings } from './page-settings.js';
+import { LANDSCAPE_SECTION_CLASS } from './wide-tables.js';
+
+const COLUMN_BLOCK_CLASS = 'cohen-column-block';
+
+export function columnBlockCss(): string {
+  return `
+    table.${COLUMN_BLOCK_CLASS} > caption {
+      caption-side: top;
+      text-align: left;
+      font-size: 10px;
+      color: #555;
+      padding: 2px 0;
+    }
+
+    table.${COLUMN_BLOCK_CLASS} + table.${COLUMN_BLOCK_CLASS} {
+      margin-top: 8px !important;
+    }
+  `;
+}
+
+// Splits every top-level table that doesn't fit the width of its printed page at its
+// current font size. Returns how many tables were split.
+export async function splitWideTables(page: Page, settings: PageSettings): Promise<number> {
+  await page.setViewport({ width: contentWidthPx(settings), height: 1000 });
+
+  return page.evaluate((blockClass: string, landscapeClass: string, landscapeWidth: number) => {
+    const TOLERANCE = 1; // px, rounding of borders
+
+    interface PlacedCell {
+      cell: HTMLTableCellElement;
+      column: number; // first grid column the cell covers
+      span: number;
+    }
+
+    const contentWidth = (element: HTMLElement) => {
+      const style = getComputedStyle(element);
+      return element.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight);
+    };
+
+    // Grid position of every cell, accounting for colspan and rowspan
+    const placeCells = (rows: HTMLTableRowElement[]) => {
+      const occupied: boolean[][] = rows.map(() => []);
+      const placed: PlacedCell[][] = rows.map(() => []);
+
+      rows.forEach((row, r) => {
+        let column = 0;
+        Array.from(row.cells).forEach((cell) => {
+          while (occupied[r][column]) column++;
+          const span = Math.max(1, cell.colSpan);
+          const rowSpan = Math.max(1, cell.rowSpan);
+          for (let dr = 0; dr < rowSpan && r + dr < rows.length; dr++) {
+            for (let dc = 0; dc < span; dc++) occupied[r + dr][column + dc] = true;
+          }
+          placed[r].push({ cell, column, span });
+          column += span;
+        });
+      });
+
+      return { placed, columnCount: Math.max(0, ...occupied.map(row => row.length)) };
+    };
+
+    // Widths as laid out now; an overflowing table has its columns at their minimum width
+    const measureColumns = (placed: PlacedCell[][], columnCount: number) => {
+      const widths: number[] = new Array(columnCount).fill(0);
+      const cells = placed.flat();
+      cells.filter(({ span }) => span === 1).forEach(({ cell, column }) => {
+        widths[column] = Math.max(widths[column], cell.getBoundingClientRect().width);
+      });
+      // Columns only covered by spanning cells share the missing width
+      cells.filter(({ span }) => span > 1).forEach(({ cell, column, span }) => {
+        const covered = widths.slice(column, column + span).reduce((sum, width) => sum + width, 0);
+        const missing = cell.getBoundingClientRect().width - covered;
+        if (missing > 0) {
+          for (let c = column; c < column + span; c++) widths[c] += missing / span;
+        }
+      });
+      return widths;
+    };
+
+    // Consecutive groups of the columns after the key column, each fitting with the key column
+    const groupColumns = (widths: number[], available: number) => {
+      const groups: [number, number][] = [];
+      let start = 1;
+      let used = widths[0];
+      for (let column = 1; column < widths.length; column++) {
+        if (column > start && used + widths[column] > available) {
+          groups.push([start, column - 1]);
+          start = column;
+          used = widths[0];
+        }
+        used += widths[column];
+      }
+      groups.push([start, widths.length - 1]);
+      return groups;
+    };
+
+    const buildBlock = (table: HTMLTableElement, rows: HTMLTableRowElement[], placed: PlacedCell[][], first: number, last: number) => {
+      const keep = (column: number) => column === 0 || (column >= first && column <= last);
+      const block = table.cloneNode(false) as HTMLTableElement;
+      block.classList.add(blockClass);
+      block.createCaption().textContent = `(columnas ${first + 1}–${last + 1})`;
+
+      // thead/tbody/tfoot are recreated in the order their rows come
+      const sections = new Map<Element, Element>();
+      rows.forEach((row, r) => {
+        const section = row.parentElement ?? table;
+        let sectionClone = sections.get(section);
+        if (!sectionClone) {
+          sectionClone = section === table ? block : block.appendChild(section.cloneNode(false) as Element);
+          sections.set(section, sectionClone);
+        }
+
+        const rowClone = row.cloneNode(false) as HTMLTableRowElement;
+        placed[r].forEach(({ cell, column, span }) => {
+          let keptSpan = 0;
+          for (let c = column; c < column + span; c++) {
+            if (keep(c)) keptSpan++;
+          }
+          if (keptSpan === 0) return;
+          const cellClone = cell.cloneNode(true) as HTMLTableCellElement;
+          cellClone.colSpan = keptSpan;
+          rowClone.appendChild(cellClone);
+        });
+        sectionClone.appendChild(rowClone);
+      });
+      return block;
+    };
+
+    const tables = Array.from(document.querySelectorAll('table')).filter(table => !table.parentElement?.closest('table'));
+    let splitCount = 0;
+
+    tables.forEach((table) => {
+      const parent = table.parentElement;
+      if (!parent) return;
+
+      const insets = document.documentElement.clientWidth - contentWidth(parent);
+      const available = table.closest(`.${landscapeClass}`) ? landscapeWidth - insets : contentWidth(parent);
+      if (table.scrollWidth <= available + TOLERANCE) return;
+
+      const rows = Array.from(table.rows);
+      const { placed, columnCount } = placeCells(rows);
+      if (columnCount < 3) return; // nothing to split besides the key column
+
+      const groups = groupColumns(measureColumns(placed, columnCount), available);
+      if (groups.length < 2) return;
+
+      // The table's own caption stays above the blocks (it may be a marked section header)
+      if (table.caption) {
+        const title = document.createElement('div');
+        Array.from(table.caption.attributes).forEach(({ name, value }) => title.setAttribute(name, value));
+        title.innerHTML = table.caption.innerHTML;
+        parent.insertBefore(title, table);
+      }
+
+      groups.forEach(([first, last], index) => {
+        const block = buildBlock(table, rows, placed, first, last);
+        if (index > 0) {
+          // Ids must stay unique (links and the table of contents point at them)
+          block.removeAttribute('id');
+          block.querySelectorAll('[id]').forEach(element => element.removeAttribute('id'));
+        }
+        parent.insertBefore(block, table);
+      });
+      table.remove();
+      splitCount++;
+    });
+
+    return splitCount;
+  }, COLUMN_BLOCK_CLASS, LANDSCAPE_SECTION_CLASS, contentWidthPx(settings, true));
+}
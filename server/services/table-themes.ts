@@ -0,0 +1,177 @@
+// Table styling themes: a named preset plus optional overrides from the job config.
+// Colours, borders and padding are plain CSS; zebra stripes, header rows and numeric
+// columns are marked in the report HTML before rendering, so they follow the rows when
+// later passes move them into column blocks or group <tbody>s.
+import type { CheerioAPI } from 'cheerio';
+import type { PdfConfig, TableThemePreset } from '../../shared/schema.js';
+import { GROUP_LEVEL_ATTRIBUTE, SUBTOTAL_ROW_CLASS } from './table-rows.js';
+
+export interface TableTheme {
+  zebraColor: string;
+  headerBackground: string;
+  headerTextColor: string;
+  borderColor: string;
+  borders: 'grid' | 'horizontal';
+  alignNumbers: boolean;
+  density: 'compact' | 'comfortable';
+  monochrome: boolean; // all text black, no report colours
+}
+
+const TABLE_THEME_PRESETS: Record<TableThemePreset, TableTheme> = {
+  'cohen-clasico': {
+    zebraColor: '#f8f1f2',
+    headerBackground: '#7a1f2b',
+    headerTextColor: '#ffffff',
+    borderColor: '#cccccc',
+    borders: 'grid',
+    alignNumbers: true,
+    density: 'compact',
+    monochrome: false,
+  },
+  minimal: {
+    zebraColor: '#f6f6f6',
+    headerBackground: '#ffffff',
+    headerTextColor: '#333333',
+    borderColor: '#dddddd',
+    borders: 'horizontal',
+    alignNumbers: true,
+    density: 'comfortable',
+    monochrome: false,
+  },
+  'impresion-bn': {
+    zebraColor: '#eeeeee',
+    headerBackground: '#d9d9d9',
+    headerTextColor: '#000000',
+    borderColor: '#000000',
+    borders: 'grid',
+    alignNumbers: true,
+    density: 'compact',
+    monochrome: true,
+  },
+};
+
+const CELL_PADDING: Record<TableTheme['density'], string> = {
+  compact: '2px 4px',
+  comfortable: '5px 8px',
+};
+
+const THEMED_TABLE_CLASS = 'cohen-table';
+const HEADER_ROW_CLASS = 'cohen-header-row';
+const ZEBRA_ROW_CLASS = 'cohen-zebra';
+const NUMERIC_CELL_CLASS = 'cohen-numeric';
+
+// Amounts as printed in Cohen reports: "$ 4.306.345,58", "U$S 3.662,26", "-2,76 %", "1.020,85"
+const NUMBER_PATTERN = /^[-+]?\s*(U\$S|US\$|USD|ARS|\$)?\s*[-+]?\d[\d.,]*\s*%?$/i;
+const NUMERIC_SHARE = 2 / 3; // of the non-empty data cells of a column
+
+// Outranks the report's own table rules, which come later in the document and use !important
+const THEMED = `html body table.${THEMED_TABLE_CLASS}.${THEMED_TABLE_CLASS}`;
+
+export function resolveTableTheme(config: PdfConfig): TableTheme {
+  const { preset = 'cohen-clasico', ...overrides } = config.tableTheme ?? {};
+  return { ...TABLE_THEME_PRESETS[preset], ...overrides };
+}
+
+// zebra: alternateRowColors, kept as the on/off switch of the stripes
+export function tableThemeCss(theme: TableTheme, zebra: boolean): string {
+  const border = `1px solid ${theme.borderColor}`;
+  return `
+    table th, table td {
+      padding: ${CELL_PADDING[theme.density]} !important;
+      ${theme.borders === 'grid'
+        ? `border: ${border} !important;`
+        : `border: none !important; border-bottom: ${border} !important;`}
+      vertical-align: top !important;
+    }
+
+    ${theme.monochrome ? `
+    ${THEMED} td, ${THEMED} th, ${THEMED} td *, ${THEMED} th * {
+      color: #000000 !important;
+      background: transparent !important;
+    }` : ''}
+
+    table thead th, table thead td,
+    ${THEMED} tr.${HEADER_ROW_CLASS} > td, ${THEMED} tr.${HEADER_ROW_CLASS} > th,
+    ${THEMED} thead td, ${THEMED} thead th {
+      background: ${theme.headerBackground} !important;
+      color: ${theme.headerTextColor} !important;
+    }
+
+    ${THEMED} tr.${HEADER_ROW_CLASS} > td *, ${THEMED} thead td * {
+      color: inherit !important;
+    }
+
+    ${zebra ? `
+    ${THEMED} tr.${ZEBRA_ROW_CLASS} > td {
+      background: ${theme.zebraColor} !important;
+    }` : ''}
+
+    ${theme.alignNumbers ? `
+    ${THEMED} .${NUMERIC_CELL_CLASS} {
+      text-align: right !important;
+      font-variant-numeric: tabular-nums;
+    }` : ''}
+  `;
+}
+
+// Marks header rows, zebra rows and numeric columns of every table, in the report HTML
+// itself so the fallback renderer gets them too. Expects the rows marked by markTableRows.
+export function markTableTheme($: CheerioAPI): void {
+  $('table').each((_, table) => {
+    const $table = $(table);
+    $table.addClass(THEMED_TABLE_CLASS);
+    const rows = $table.children('thead, tbody, tfoot').children('tr');
+    const columns = new Map<number, { values: number; numbers: number }>();
+    let stripe = 0;
+
+    // Cells with their grid column; cells spanning several columns aren't classified
+    const eachColumnCell = (row: typeof rows[number], visit: (column: number, cell: typeof $table) => void) => {
+      let column = 0;
+      $(row).children('td, th').each((_, cell) => {
+        const span = Math.max(1, parseInt($(cell).attr('colspan') || '1', 10) || 1);
+        if (span === 1) visit(column, $(cell));
+        column += span;
+      });
+    };
+
+    rows.each((_, row) => {
+      const $row = $(row);
+      const inHead = $row.parent().is('thead');
+      const level = Number($row.attr(GROUP_LEVEL_ATTRIBUTE)) || null;
+      // Instrument rows (level 3) are striped along with their lots
+      const groupHeader = level !== null && level <= 2;
+      const dataRow = !inHead && !groupHeader && !$row.hasClass(SUBTOTAL_ROW_CLASS);
+
+      if (inHead || level === 1) {
+        $row.addClass(HEADER_ROW_CLASS);
+      }
+      // Stripes start over in every group
+      if (groupHeader) {
+        stripe = 0;
+      } else if (dataRow && stripe++ % 2 === 1) {
+        $row.addClass(ZEBRA_ROW_CLASS);
+      }
+
+      if (dataRow) {
+        eachColumnCell(row, (column, $cell) => {
+          const text = $cell.text().replace(/\s+/g, ' ').trim();
+          if (!text) return;
+          const entry = columns.get(column) ?? { values: 0, numbers: 0 };
+          entry.values++;
+          if (NUMBER_PATTERN.test(text)) entry.numbers++;
+          columns.set(column, entry);
+        });
+      }
+    });
+
+    const numericColumns = new Set(Array.from(columns.entries())
+      .filter(([, { values, numbers }]) => numbers / values >= NUMERIC_SHARE)
+      .map(([column]) => column));
+    if (numericColumns.size === 0) return;
+
+    // Headers and subtotals of a numeric column are aligned with its values
+    rows.each((_, row) => eachColumnCell(row, (column, $cell) => {
+      if (numericColumns.has(column)) $cell.addClass(NUMERIC_CELL_CLASS);
+    }));
+  });
+}
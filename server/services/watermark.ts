@@ -0,0 +1,120 @@
+// Text or image watermark stamped over the rendered pages with pdf-lib
+import { degrees, rgb, type PDFDocument, type PDFImage, type PDFPage } from 'pdf-lib';
+import type { OutputProfile, WatermarkConfig } from '../../shared/schema.js';
+import { toFontCharset } from './header-footer.js';
+import { embedStampFont } from './stamp-fonts.js';
+
+const MAX_FONT_SIZE = 200;
+
+// Anchor of each position as a fraction of the page width/height
+const POSITION_ANCHORS: Record<WatermarkConfig['position'], { x: number; y: number }> = {
+  'center': { x: 0.5, y: 0.5 },
+  'top': { x: 0.5, y: 0.85 },
+  'bottom': { x: 0.5, y: 0.15 },
+  'top-left': { x: 0.25, y: 0.85 },
+  'top-right': { x: 0.75, y: 0.85 },
+  'bottom-left': { x: 0.25, y: 0.15 },
+  'bottom-right': { x: 0.75, y: 0.15 },
+};
+
+export async function stampWatermark(pdfDoc: PDFDocument, watermark: WatermarkConfig, profile: OutputProfile): Promise<void> {
+  const pages = pdfDoc.getPages();
+  const selected = selectPages(watermark.pages, pages.length);
+
+  if (watermark.type === 'image') {
+    const image = await embedDataUrlImage(pdfDoc, watermark.image!);
+    pages.forEach((page, index) => {
+      if (selected.has(index)) drawImageWatermark(page, image, watermark);
+    });
+    return;
+  }
+
+  const font = await embedStampFont(pdfDoc, 'bold', profile);
+  const text = toFontCharset(font, watermark.text);
+  if (!text) return;
+
+  const color = hexToRgb(watermark.color);
+  pages.forEach((page, index) => {
+    if (!selected.has(index)) return;
+
+    const fontSize = Math.min(MAX_FONT_SIZE, (page.getWidth() * watermark.size / 100) / font.widthOfTextAtSize(text, 1));
+    const width = font.widthOfTextAtSize(text, fontSize);
+    const height = font.heightAtSize(fontSize, { descender: false });
+    const { x, y } = rotatedOrigin(page, watermark, width, height);
+
+    page.drawText(text, {
+      x,
+      y,
+      size: fontSize,
+      font,
+      color,
+      opacity: watermark.opacity,
+      rotate: degrees(watermark.angle),
+    });
+  });
+}
+
+function drawImageWatermark(page: PDFPage, image: PDFImage, watermark: WatermarkConfig): void {
+  const width = page.getWidth() * watermark.size / 100;
+  const height = width * image.height / image.width;
+  const { x, y } = rotatedOrigin(page, watermark, width, height);
+
+  page.drawImage(image, {
+    x,
+    y,
+    width,
+    height,
+    opacity: watermark.opacity,
+    rotate: degrees(watermark.angle),
+  });
+}
+
+// pdf-lib rotates around the bottom-left corner; shift it so the box is centered on the anchor
+function rotatedOrigin(page: PDFPage, watermark: WatermarkConfig, width: number, height: number): { x: number; y: number } {
+  const anchor = POSITION_ANCHORS[watermark.position];
+  const centerX = page.getWidth() * anchor.x;
+  const centerY = page.getHeight() * anchor.y;
+  const angle = watermark.angle * Math.PI / 180;
+
+  return {
+    x: centerX - (width / 2) * Math.cos(angle) + (height / 2) * Math.sin(angle),
+    y: centerY - (width / 2) * Math.sin(angle) - (height / 2) * Math.cos(angle),
+  };
+}
+
+// "all", "first", "last" or ranges like "1-3,5" (1-based) to 0-based page indexes
+export function selectPages(spec: string, pageCount: number): Set<number> {
+  const selected = new Set<number>();
+
+  if (spec === 'all') {
+    for (let i = 0; i < pageCount; i++) selected.add(i);
+  } else if (spec === 'first') {
+    selected.add(0);
+  } else if (spec === 'last') {
+    selected.add(pageCount - 1);
+  } else {
+    for (const range of spec.split(',')) {
+      const [start, end = start] = range.split('-').map(Number);
+      for (let page = start; page <= Math.min(end, pageCount); page++) {
+        selected.add(page - 1);
+      }
+    }
+  }
+
+  return selected;
+}
+
+async function embedDataUrlImage(pdfDoc: PDFDocument, dataUrl: string): Promise<PDFImage> {
+  const match = dataUrl.match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+  if (!match) {
+    throw new Error('Watermark image must be a PNG or JPEG data URL');
+  }
+
+  const bytes = Buffer.from(match[2], 'base64');
+  return match[1] === 'png' ? pdfDoc.embedPng(bytes) : pdfDoc.embedJpg(bytes);
+}
+
+function hexToRgb(hex: string) {
+  const value = parseInt(hex.slice(1), 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
@@ -0,0 +1,67 @@
+// Landscape pages for wide tables. A table wider than the content area of a portrait page
+// is moved to a named @page turned sideways, so summary sections stay portrait and the
+// holdings tables get the full sheet width, all in the same PDF.
+import type { Page } from 'puppeteer';
+import { contentWidthPx, type PageSettings } from './page-settings.js';
+
+const LANDSCAPE_PAGE_NAME = 'cohen-landscape';
+export const LANDSCAPE_SECTION_CLASS = 'cohen-landscape-section';
+
+// Only portrait documents have anything to turn
+export function usesLandscapeTables(settings: PageSettings, enabled: boolean): boolean {
+  return enabled && settings.orientation === 'portrait';
+}
+
+export function landscapePageRuleCss(settings: PageSettings): string {
+  const { top, right, bottom, left } = settings.margins;
+  // Same margins as the portrait pages, so the header/footer room is kept
+  return `
+    @page ${LANDSCAPE_PAGE_NAME} {
+      size: ${settings.height}mm ${settings.width}mm;
+      margin: ${top}mm ${right}mm ${bottom}mm ${left}mm;
+    }
+
+    .${LANDSCAPE_SECTION_CLASS} {
+      page: ${LANDSCAPE_PAGE_NAME};
+    }
+  `;
+}
+
+// Lays the page out at the portrait content width and moves every top-level table that
+// overflows it (with the section header right before it) onto landscape pages.
+// Returns how many tables were moved.
+export async function markWideTables(page: Page, settings: PageSettings): Promise<number> {
+  await page.setViewport({ width: contentWidthPx(settings), height: 1000 });
+
+  return page.evaluate((sectionClass: string) => {
+    const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6, [role="heading"]';
+    const TOLERANCE = 1; // px, rounding of borders
+
+    // Tables are 100% wide, so a wider one can't fit its container (a card may be padded)
+    const availableWidth = (element: HTMLElement) => {
+      const style = getComputedStyle(element);
+      return element.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight);
+    };
+
+    const wideTables = Array.from(document.querySelectorAll('table')).filter(table =>
+      table.parentElement &&
+      !table.parentElement.closest('table') &&
+      table.scrollWidth > availableWidth(table.parentElement) + TOLERANCE
+    );
+
+    wideTables.forEach((table) => {
+      const wrapper = document.createElement('div');
+      wrapper.className = sectionClass;
+      table.parentNode?.insertBefore(wrapper, table);
+
+      // Keep the section header on the same page as its table
+      const previous = wrapper.previousElementSibling;
+      if (previous && previous.matches(HEADING_SELECTOR)) {
+        wrapper.appendChild(previous);
+      }
+      wrapper.appendChild(table);
+    });
+
+    return wideTables.length;
+  }, LANDSCAPE_SECTION_CLASS);
+}
@@ -1,19 +1,65 @@
-import { conversionJobs, type ConversionJob, type InsertConversionJob } from "@shared/schema";
+import { and, asc, desc, eq, getTableColumns, inArray, isNotNull, lt, ne, type SQL } from "drizzle-orm";
+import {
+  conversionBatches,
+  conversionJobs,
+  type BatchJob,
+  type ConversionBatch,
+  type ConversionJob,
+  type EffectivePdfSettings,
+  type InsertConversionBatch,
+  type InsertConversionJob,
+  type JobSignature,
+  type JobStageRecord,
+  type RecentJob,
+} from "@shared/schema";
+import { connectDatabase, type DatabaseConnection } from "./db";
+import { publishJobUpdate } from "./services/job-events";
+
+const FINISHED_STATUSES = ["completed", "failed", "cancelled"];
+// Jobs that no longer need their original HTML to render
+const INACTIVE_STATUSES = [...FINISHED_STATUSES, "expired"];
+
+// Minimal view of a completed job's PDF, used by the retention sweeper
+export type JobArtifact = Pick<ConversionJob, "id" | "pdfPath" | "completedAt">;
+
+export interface BatchWithJobs {
+  batch: ConversionBatch;
+  jobs: ConversionJob[];
+}
 
 export interface IStorage {
   createConversionJob(job: InsertConversionJob): Promise<ConversionJob>;
   getConversionJob(id: number): Promise<ConversionJob | undefined>;
   updateConversionJobStatus(id: number, status: string, pdfPath?: string, error?: string): Promise<ConversionJob | undefined>;
-  getRecentJobs(limit?: number): Promise<ConversionJob[]>;
+  // Compare-and-set: only updates a job whose status is one of `from`, otherwise returns undefined
+  transitionConversionJobStatus(id: number, from: string[], to: string, pdfPath?: string, error?: string): Promise<ConversionJob | undefined>;
+  updateConversionJobProgress(id: number, progress: number, stages: JobStageRecord[]): Promise<ConversionJob | undefined>;
+  updateConversionJobSettings(id: number, settings: EffectivePdfSettings): Promise<ConversionJob | undefined>;
+  updateConversionJobSignature(id: number, signature: JobSignature): Promise<ConversionJob | undefined>;
+  getRecentJobs(limit?: number): Promise<RecentJob[]>;
+  getPendingJobs(): Promise<ConversionJob[]>;
+  // Jobs left "processing", e.g. by a restart; ids only, a batch can hold hundreds
+  getProcessingJobIds(): Promise<number[]>;
+  getJobsWithPdf(): Promise<JobArtifact[]>;
+  findCompletedJobByHash(contentHash: string): Promise<ConversionJob | undefined>;
+  purgeOriginalHtml(createdBefore: Date): Promise<number>;
+  // The batch and all its jobs are created together, or none of them is
+  createConversionBatch(batch: InsertConversionBatch, jobs: InsertConversionJob[]): Promise<BatchWithJobs>;
+  getConversionBatch(id: number): Promise<ConversionBatch | undefined>;
+  getBatchJobs(batchId: number): Promise<BatchJob[]>;
 }
 
 export class MemStorage implements IStorage {
   private jobs: Map<number, ConversionJob>;
+  private batches: Map<number, ConversionBatch>;
   private currentId: number;
+  private currentBatchId: number;
 
   constructor() {
     this.jobs = new Map();
+    this.batches = new Map();
     this.currentId = 1;
+    this.currentBatchId = 1;
   }
 
   async createConversionJob(insertJob: InsertConversionJob): Promise<ConversionJob> {
@@ -21,6 +67,15 @@ export class MemStorage implements IStorage {
     const job: ConversionJob = {
       ...insertJob,
       id,
+      priority: insertJob.priority ?? 0,
+      parentJobId: insertJob.parentJobId ?? null,
+      batchId: insertJob.batchId ?? null,
+      contentHash: insertJob.contentHash ?? null,
+      effectiveSettings: null,
+      signedBy: null,
+      signatureHash: null,
+      progress: 0,
+      stages: "[]",
       status: "pending",
       pdfPath: null,
       createdAt: new Date(),
@@ -28,6 +83,7 @@ export class MemStorage implements IStorage {
       error: null,
     };
     this.jobs.set(id, job);
+    publishJobUpdate(job);
     return job;
   }
 
@@ -49,18 +105,338 @@ export class MemStorage implements IStorage {
       status,
       pdfPath: pdfPath || job.pdfPath,
       error: error || job.error,
-      completedAt: status === "completed" || status === "failed" ? new Date() : job.completedAt,
+      completedAt: FINISHED_STATUSES.includes(status) ? new Date() : job.completedAt,
     };
 
     this.jobs.set(id, updatedJob);
+    publishJobUpdate(updatedJob);
+    return updatedJob;
+  }
+
+  async transitionConversionJobStatus(
+    id: number,
+    from: string[],
+    to: string,
+    pdfPath?: string,
+    error?: string
+  ): Promise<ConversionJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job || !from.includes(job.status)) return undefined;
+    return this.updateConversionJobStatus(id, to, pdfPath, error);
+  }
+
+  async updateConversionJobProgress(
+    id: number,
+    progress: number,
+    stages: JobStageRecord[]
+  ): Promise<ConversionJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, progress, stages: JSON.stringify(stages) };
+    this.jobs.set(id, updatedJob);
+    publishJobUpdate(updatedJob);
+    return updatedJob;
+  }
+
+  async updateConversionJobSettings(id: number, settings: EffectivePdfSettings): Promise<ConversionJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, effectiveSettings: JSON.stringify(settings) };
+    this.jobs.set(id, updatedJob);
+    publishJobUpdate(updatedJob);
+    return updatedJob;
+  }
+
+  async updateConversionJobSignature(id: number, signature: JobSignature): Promise<ConversionJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...signature };
+    this.jobs.set(id, updatedJob);
+    publishJobUpdate(updatedJob);
     return updatedJob;
   }
 
-  async getRecentJobs(limit: number = 10): Promise<ConversionJob[]> {
+  async getRecentJobs(limit: number = 10): Promise<RecentJob[]> {
     return Array.from(this.jobs.values())
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-      .slice(0, limit);
+      .slice(0, limit)
+      .map(({ originalHtml, ...job }) => job);
+  }
+
+  async getPendingJobs(): Promise<ConversionJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.status === "pending")
+      .sort((a, b) => b.priority - a.priority || a.id - b.id);
+  }
+
+  async getProcessingJobIds(): Promise<number[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.status === "processing")
+      .map(job => job.id)
+      .sort((a, b) => a - b);
+  }
+
+  async getJobsWithPdf(): Promise<JobArtifact[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.status === "completed" && job.pdfPath)
+      .sort((a, b) => (a.completedAt?.getTime() ?? 0) - (b.completedAt?.getTime() ?? 0))
+      .map(({ id, pdfPath, completedAt }) => ({ id, pdfPath, completedAt }));
+  }
+
+  async findCompletedJobByHash(contentHash: string): Promise<ConversionJob | undefined> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.contentHash === contentHash && job.status === "completed" && job.pdfPath)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async purgeOriginalHtml(createdBefore: Date): Promise<number> {
+    let purged = 0;
+    this.jobs.forEach((job, id) => {
+      if (INACTIVE_STATUSES.includes(job.status) && job.originalHtml && job.createdAt < createdBefore) {
+        this.jobs.set(id, { ...job, originalHtml: "" });
+        purged++;
+      }
+    });
+    return purged;
+  }
+
+  async createConversionBatch(insertBatch: InsertConversionBatch, insertJobs: InsertConversionJob[]): Promise<BatchWithJobs> {
+    const id = this.currentBatchId++;
+    const batch: ConversionBatch = { ...insertBatch, id, createdAt: new Date() };
+    this.batches.set(id, batch);
+
+    const jobs: ConversionJob[] = [];
+    for (const insertJob of insertJobs) {
+      jobs.push(await this.createConversionJob({ ...insertJob, batchId: id }));
+    }
+    return { batch, jobs };
+  }
+
+  async getConversionBatch(id: number): Promise<ConversionBatch | undefined> {
+    return this.batches.get(id);
+  }
+
+  async getBatchJobs(batchId: number): Promise<BatchJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.batchId === batchId)
+      .sort((a, b) => a.id - b.id)
+      .map(({ originalHtml, ...job }) => job);
   }
 }
 
-export const storage = new MemStorage();
+export class PgStorage implements IStorage {
+  constructor(private connection: DatabaseConnection) {}
+
+  private get db() {
+    return this.connection.db;
+  }
+
+  async migrate(): Promise<void> {
+    await this.connection.migrate();
+  }
+
+  async createConversionJob(insertJob: InsertConversionJob): Promise<ConversionJob> {
+    const [job] = await this.db.insert(conversionJobs).values(insertJob).returning();
+    publishJobUpdate(job);
+    return job;
+  }
+
+  async getConversionJob(id: number): Promise<ConversionJob | undefined> {
+    const [job] = await this.db.select().from(conversionJobs).where(eq(conversionJobs.id, id));
+    return job;
+  }
+
+  async updateConversionJobStatus(
+    id: number,
+    status: string,
+    pdfPath?: string,
+    error?: string
+  ): Promise<ConversionJob | undefined> {
+    return this.setConversionJobStatus(eq(conversionJobs.id, id), status, pdfPath, error);
+  }
+
+  async transitionConversionJobStatus(
+    id: number,
+    from: string[],
+    to: string,
+    pdfPath?: string,
+    error?: string
+  ): Promise<ConversionJob | undefined> {
+    return this.setConversionJobStatus(and(eq(conversionJobs.id, id), inArray(conversionJobs.status, from)), to, pdfPath, error);
+  }
+
+  private async setConversionJobStatus(
+    where: SQL | undefined,
+    status: string,
+    pdfPath?: string,
+    error?: string
+  ): Promise<ConversionJob | undefined> {
+    // Same semantics as MemStorage: omitted fields keep their current value
+    const changes: Partial<ConversionJob> = { status };
+    if (pdfPath) changes.pdfPath = pdfPath;
+    if (error) changes.error = error;
+    if (FINISHED_STATUSES.includes(status)) changes.completedAt = new Date();
+
+    const [job] = await this.db
+      .update(conversionJobs)
+      .set(changes)
+      .where(where)
+      .returning();
+    if (job) publishJobUpdate(job);
+    return job;
+  }
+
+  async updateConversionJobProgress(
+    id: number,
+    progress: number,
+    stages: JobStageRecord[]
+  ): Promise<ConversionJob | undefined> {
+    const [job] = await this.db
+      .update(conversionJobs)
+      .set({ progress, stages: JSON.stringify(stages) })
+      .where(eq(conversionJobs.id, id))
+      .returning();
+    if (job) publishJobUpdate(job);
+    return job;
+  }
+
+  async updateConversionJobSettings(id: number, settings: EffectivePdfSettings): Promise<ConversionJob | undefined> {
+    const [job] = await this.db
+      .update(conversionJobs)
+      .set({ effectiveSettings: JSON.stringify(settings) })
+      .where(eq(conversionJobs.id, id))
+      .returning();
+    if (job) publishJobUpdate(job);
+    return job;
+  }
+
+  async updateConversionJobSignature(id: number, signature: JobSignature): Promise<ConversionJob | undefined> {
+    const [job] = await this.db
+      .update(conversionJobs)
+      .set(signature)
+      .where(eq(conversionJobs.id, id))
+      .returning();
+    if (job) publishJobUpdate(job);
+    return job;
+  }
+
+  async getRecentJobs(limit: number = 10): Promise<RecentJob[]> {
+    const { originalHtml, ...recentJobColumns } = getTableColumns(conversionJobs);
+    return this.db
+      .select(recentJobColumns)
+      .from(conversionJobs)
+      .orderBy(desc(conversionJobs.createdAt), desc(conversionJobs.id))
+      .limit(limit);
+  }
+
+  async getPendingJobs(): Promise<ConversionJob[]> {
+    return this.db
+      .select()
+      .from(conversionJobs)
+      .where(eq(conversionJobs.status, "pending"))
+      .orderBy(desc(conversionJobs.priority), asc(conversionJobs.id));
+  }
+
+  async getProcessingJobIds(): Promise<number[]> {
+    const jobs = await this.db
+      .select({ id: conversionJobs.id })
+      .from(conversionJobs)
+      .where(eq(conversionJobs.status, "processing"))
+      .orderBy(asc(conversionJobs.id));
+    return jobs.map(job => job.id);
+  }
+
+  async getJobsWithPdf(): Promise<JobArtifact[]> {
+    return this.db
+      .select({
+        id: conversionJobs.id,
+        pdfPath: conversionJobs.pdfPath,
+        completedAt: conversionJobs.completedAt,
+      })
+      .from(conversionJobs)
+      .where(and(eq(conversionJobs.status, "completed"), isNotNull(conversionJobs.pdfPath)))
+      .orderBy(asc(conversionJobs.completedAt), asc(conversionJobs.id));
+  }
+
+  async findCompletedJobByHash(contentHash: string): Promise<ConversionJob | undefined> {
+    const [job] = await this.db
+      .select()
+      .from(conversionJobs)
+      .where(and(
+        eq(conversionJobs.contentHash, contentHash),
+        eq(conversionJobs.status, "completed"),
+        isNotNull(conversionJobs.pdfPath),
+      ))
+      .orderBy(desc(conversionJobs.id))
+      .limit(1);
+    return job;
+  }
+
+  async purgeOriginalHtml(createdBefore: Date): Promise<number> {
+    const purged = await this.db
+      .update(conversionJobs)
+      .set({ originalHtml: "" })
+      .where(and(
+        inArray(conversionJobs.status, INACTIVE_STATUSES),
+        lt(conversionJobs.createdAt, createdBefore),
+        ne(conversionJobs.originalHtml, ""),
+      ))
+      .returning({ id: conversionJobs.id });
+    return purged.length;
+  }
+
+  async createConversionBatch(insertBatch: InsertConversionBatch, insertJobs: InsertConversionJob[]): Promise<BatchWithJobs> {
+    const created = await this.db.transaction(async (tx) => {
+      const [batch] = await tx.insert(conversionBatches).values(insertBatch).returning();
+      const jobs: ConversionJob[] = [];
+      // One row at a time: a batch can carry hundreds of MB of HTML
+      for (const insertJob of insertJobs) {
+        const [job] = await tx.insert(conversionJobs).values({ ...insertJob, batchId: batch.id }).returning();
+        jobs.push(job);
+      }
+      return { batch, jobs };
+    });
+
+    // Only announced once committed
+    created.jobs.forEach(publishJobUpdate);
+    return created;
+  }
+
+  async getConversionBatch(id: number): Promise<ConversionBatch | undefined> {
+    const [batch] = await this.db.select().from(conversionBatches).where(eq(conversionBatches.id, id));
+    return batch;
+  }
+
+  async getBatchJobs(batchId: number): Promise<BatchJob[]> {
+    const { originalHtml, ...batchJobColumns } = getTableColumns(conversionJobs);
+    return this.db
+      .select(batchJobColumns)
+      .from(conversionJobs)
+      .where(eq(conversionJobs.batchId, batchId))
+      .orderBy(asc(conversionJobs.id));
+  }
+}
+
+function createStorage(): IStorage {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    console.log("DATABASE_URL not set, using in-memory job storage");
+    return new MemStorage();
+  }
+
+  console.log("Using PostgreSQL job storage");
+  return new PgStorage(connectDatabase(databaseUrl));
+}
+
+export const storage = createStorage();
+
+// Apply pending migrations before the server starts handling requests
+export async function initStorage(): Promise<void> {
+  if (storage instanceof PgStorage) {
+    console.log("Running database migrations...");
+    await storage.migrate();
+  }
+}
@@ -1,43 +1,301 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const conversionJobs = pgTable("conversion_jobs", {
   id: serial("id").primaryKey(),
   filename: text("filename").notNull(),
-  originalHtml: text("original_html").notNull(),
-  status: text("status").notNull().default("pending"), // pending, processing, completed, failed
+  originalHtml: text("original_html").notNull(), // emptied by the retention sweeper
+  status: text("status").notNull().default("pending"), // pending, processing, completed, failed, cancelled, expired
   pdfPath: text("pdf_path"),
   config: text("config").notNull(), // JSON string of configuration
+  priority: integer("priority").notNull().default(0), // higher runs first, FIFO within the same priority
+  parentJobId: integer("parent_job_id"), // job this one retries, if any
+  batchId: integer("batch_id"), // batch this job was uploaded in, if any
+  contentHash: text("content_hash"), // sha256 of the normalized HTML + config, used as the result cache key
+  progress: integer("progress").notNull().default(0), // 0-100, reported by the PDF pipeline
+  stages: text("stages").notNull().default("[]"), // JSON array of JobStageRecord
+  effectiveSettings: text("effective_settings"), // JSON EffectivePdfSettings actually applied by the renderer
+  signedBy: text("signed_by"), // subject of the signing certificate, for signed PDFs
+  signatureHash: text("signature_hash"), // sha256 of the signed PDF file
   createdAt: timestamp("created_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
   error: text("error"),
-});
+}, (table) => [
+  index("conversion_jobs_content_hash_idx").on(table.contentHash),
+]);
 
-export const insertConversionJobSchema = createInsertSchema(conversionJobs).pick({
+export const insertConversionJobSchema = createInsertSchema(conversionJobs, {
+  // Multipart form fields arrive as strings
+  priority: z.coerce.number().int().min(0).max(10).optional(),
+}).pick({
   filename: true,
   originalHtml: true,
   config: true,
+  priority: true,
+  parentJobId: true,
+  batchId: true,
+  contentHash: true,
 });
 
 export type InsertConversionJob = z.infer<typeof insertConversionJobSchema>;
 export type ConversionJob = typeof conversionJobs.$inferSelect;
 
+export const conversionBatches = pgTable("conversion_batches", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertConversionBatchSchema = createInsertSchema(conversionBatches).pick({
+  name: true,
+});
+
+export type InsertConversionBatch = z.infer<typeof insertConversionBatchSchema>;
+export type ConversionBatch = typeof conversionBatches.$inferSelect;
+
+// Child job of a batch, without the (large) original HTML
+export type BatchJob = Omit<ConversionJob, "originalHtml">;
+
+// Job as listed by GET /api/recent, also without the original HTML
+export type RecentJob = Omit<ConversionJob, "originalHtml">;
+
+// Batch as returned by GET /api/batch/:id - status and progress are derived from the child jobs
+export type BatchStatus = ConversionBatch & {
+  status: "processing" | "completed";
+  progress: number; // average progress of the child jobs, 0-100
+  counts: Record<string, number>; // number of child jobs per job status
+  jobs: BatchJob[];
+};
+
+// Stages reported by generatePdf, in pipeline order
+export const pdfStages = [
+  "validation",
+  "sanitizing",
+  "browser_launch",
+  "set_content",
+  "table_optimization",
+  "pdf_write",
+  "table_of_contents",
+  "fallback",
+  "post_processing",
+  "signing",
+  "pdfa_validation",
+] as const;
+
+export type PdfStage = typeof pdfStages[number];
+
+export interface JobStageRecord {
+  stage: PdfStage;
+  percent: number; // overall job progress when the stage started
+  startedAt: string; // ISO timestamp
+  finishedAt: string | null;
+}
+
+// Page settings the renderer actually applied, stored on the job once the PDF is written
+export interface EffectivePdfSettings {
+  renderer: "puppeteer" | "html-pdf-node";
+  pageSize: string;
+  orientation: "portrait" | "landscape";
+  width: number; // mm, as printed (orientation applied)
+  height: number; // mm
+  margins: { top: number; right: number; bottom: number; left: number }; // mm
+  scale: number; // 0.7-1, from contentScale
+  landscapeTables?: number; // wide tables printed on landscape pages of a portrait document
+  splitTables?: number; // wide tables printed as blocks of columns
+  fittedTables?: FittedTable[]; // tables whose text was shrunk to fit the page
+}
+
+// Table shrunk by the auto-fit pass
+export interface FittedTable {
+  index: number; // 1-based, in document order (top-level tables)
+  label: string; // caption or header row text, to find it in the report
+  fontSize: number; // px, font size of the table text after fitting
+  fits: boolean; // false if it still overflows at the minimum font size
+}
+
+// Job as returned by GET /api/job/:id
+export type JobStatus = ConversionJob & {
+  queuePosition: number | null; // 1-based position while pending, null otherwise
+};
+
+// Messages pushed over the /api/jobs/events WebSocket
+export type JobUpdate = Omit<JobStatus, "originalHtml">;
+
+export type JobEventMessage =
+  | { type: "job"; job: JobUpdate }
+  | { type: "queue"; positions: Record<number, number> };
+
+// Text or image stamped over the pages ("BORRADOR", "CONFIDENCIAL", a logo...)
+export const watermarkSchema = z.object({
+  type: z.enum(["text", "image"]).default("text"),
+  text: z.string().max(100).default("BORRADOR"),
+  image: z.string().max(1_500_000).optional(), // PNG or JPEG data URL, required for type "image"
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).default("#c0392b"),
+  opacity: z.number().min(0.05).max(1).default(0.15),
+  angle: z.number().min(-90).max(90).default(45), // degrees, counter-clockwise
+  size: z.number().min(5).max(100).default(60), // width as a percentage of the page width
+  position: z.enum(["center", "top", "bottom", "top-left", "top-right", "bottom-left", "bottom-right"]).default("center"),
+  // "all", "first", "last" or page ranges like "1-3,5"
+  pages: z.string().regex(/^(all|first|last|\d+(-\d+)?(,\d+(-\d+)?)*)$/).default("all"),
+}).refine(watermark => watermark.type !== "image" || !!watermark.image, {
+  message: "An image watermark needs an image",
+  path: ["image"],
+});
+
+export type WatermarkConfig = z.infer<typeof watermarkSchema>;
+
+// Look of the tables: a named preset, optionally with some of its settings overridden.
+// Zebra stripes are switched on and off with alternateRowColors.
+export const tableThemePresets = ["cohen-clasico", "minimal", "impresion-bn"] as const;
+export type TableThemePreset = typeof tableThemePresets[number];
+
+export const tableThemeSchema = z.object({
+  preset: z.enum(tableThemePresets).default("cohen-clasico"),
+  zebraColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
+  headerBackground: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
+  headerTextColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
+  borderColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
+  alignNumbers: z.boolean().optional(), // right-align the columns holding amounts
+  density: z.enum(["compact", "comfortable"]).optional(), // cell padding
+});
+
+export type TableThemeConfig = z.infer<typeof tableThemeSchema>;
+
+// Document properties written into the PDF; anything left out is filled in from the report
+export const pdfMetadataSchema = z.object({
+  title: z.string().max(300),
+  author: z.string().max(200),
+  subject: z.string().max(500),
+  keywords: z.array(z.string().max(100)).max(50),
+  creator: z.string().max(200),
+  producer: z.string().max(200),
+}).partial();
+
+export type PdfMetadataConfig = z.infer<typeof pdfMetadataSchema>;
+
+// "pdfa-2b" produces archival PDF/A-2b output, validated before the job completes
+export const outputProfiles = ["standard", "pdfa-2b"] as const;
+export type OutputProfile = typeof outputProfiles[number];
+
+// Password protection of the generated PDF. Passwords are only kept in memory while the
+// job runs; the config stored with the job keeps the permissions but never the passwords.
+export const pdfEncryptionSchema = z.object({
+  // Standard security handler passwords: up to 32 Latin-1 characters
+  userPassword: z.string().max(32).regex(/^[\x20-\x7e\xa0-\xff]*$/).optional(), // needed to open the file
+  ownerPassword: z.string().max(32).regex(/^[\x20-\x7e\xa0-\xff]*$/).optional(), // lifts the restrictions
+  permissions: z.object({
+    print: z.boolean().default(true),
+    copy: z.boolean().default(false),
+    modify: z.boolean().default(false),
+  }).default({}),
+});
+
+export type PdfEncryptionConfig = z.infer<typeof pdfEncryptionSchema>;
+
+// Digital signature with the server's certificate (SIGNING_P12_PATH)
+export const pdfSignatureSchema = z.object({
+  visible: z.boolean().default(false), // signature box on the page, otherwise only in the signature panel
+  page: z.enum(["first", "last"]).default("last"), // page of the visible signature box
+  reason: z.string().max(200).default("Resumen de cuenta emitido por Cohen S.A."),
+  location: z.string().max(200).default("Buenos Aires, Argentina"),
+});
+
+export type PdfSignatureConfig = z.infer<typeof pdfSignatureSchema>;
+
+export interface JobSignature {
+  signedBy: string;
+  signatureHash: string;
+}
+
+// GET /api/signing
+export interface SigningStatus {
+  configured: boolean;
+  signer: string | null; // subject of the signing certificate
+  error?: string; // why the configured certificate can't be used
+}
+
+// Named paper sizes, including regional ones (Oficio: 216x340mm); "Custom" uses customPageSize
+export const pageSizes = ["A4", "Letter", "Legal", "Oficio", "A3", "A5", "Tabloid", "Custom"] as const;
+export type PageSize = typeof pageSizes[number];
+
 // PDF Configuration Schema
 export const pdfConfigSchema = z.object({
-  pageSize: z.enum(["A4", "Letter", "Legal"]).default("A4"),
+  pageSize: z.enum(pageSizes).default("A4"),
+  // Exact sheet size in mm for pageSize "Custom", used as given (orientation doesn't apply)
+  customPageSize: z.object({
+    width: z.number().min(100).max(1200),
+    height: z.number().min(100).max(1200),
+  }).optional(),
   orientation: z.enum(["portrait", "landscape"]).default("portrait"),
+  // Tables wider than a portrait page get landscape pages of their own (portrait documents only)
+  landscapeWideTables: z.boolean().default(true),
+  // Tables that still don't fit are printed as blocks of columns, each repeating the first column
+  splitWideTables: z.boolean().default(false),
   marginTop: z.number().min(2).max(25).default(5),
   marginSide: z.number().min(2).max(25).default(5),
   repeatHeaders: z.boolean().default(true),
   keepGroupsTogether: z.boolean().default(true),
   alternateRowColors: z.boolean().default(true),
-  autoFitText: z.boolean().default(false),
+  tableTheme: tableThemeSchema.optional(), // "cohen-clasico" when left out
+  minFontSize: z.number().min(5).max(12).default(7), // px, tables that overflow are never shrunk below this
   contentScale: z.number().min(70).max(100).default(85),
+  // Header/footer templates: up to three parts separated by "|" (left | center | right).
+  // Placeholders: {page} {pages} {filename} {date} {account} {period}
+  headerTemplate: z.string().max(300).default(""),
+  footerTemplate: z.string().max(300).default(""),
+  headerFooterOnFirstPage: z.boolean().default(true),
+  tableOfContents: z.boolean().default(false), // printed index of the report sections at the front
+  watermark: watermarkSchema.optional(),
+  metadata: pdfMetadataSchema.optional(), // overrides for the generated document properties
+  outputProfile: z.enum(outputProfiles).default("standard"),
+  encryption: pdfEncryptionSchema.optional(),
+  signature: pdfSignatureSchema.optional(),
 });
 
 export type PdfConfig = z.infer<typeof pdfConfigSchema>;
 
+// Config accepted from requests: pdfConfigSchema plus rules across fields (pdfConfigSchema
+// itself stays a plain object so retry overrides can use .partial())
+export const conversionConfigSchema = pdfConfigSchema.superRefine((config, ctx) => {
+  if (config.pageSize === "Custom" && !config.customPageSize) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "A custom page size needs customPageSize (width and height in mm)",
+      path: ["customPageSize"],
+    });
+  }
+  if (config.encryption && config.outputProfile === "pdfa-2b") {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "PDF/A output cannot be encrypted",
+      path: ["encryption"],
+    });
+  }
+  if (config.encryption && config.signature) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "An encrypted PDF cannot be signed",
+      path: ["signature"],
+    });
+  }
+  if (config.encryption && !config.encryption.userPassword && !config.encryption.ownerPassword) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Encryption needs a user or owner password",
+      path: ["encryption"],
+    });
+  }
+});
+
+// Body of POST /api/job/:id/retry - config fields override the parent job's config
+export const retryJobSchema = z.object({
+  config: pdfConfigSchema.partial().optional(),
+  priority: z.number().int().min(0).max(10).optional(),
+});
+
+export type RetryJobRequest = z.infer<typeof retryJobSchema>;
+
 // Analysis Result Schema
 export const analysisResultSchema = z.object({
   tableCount: z.number(),